@@ -0,0 +1,28 @@
+// Local stand-in for an advertiser tracker, for trying failover and health checks.
+//
+//   node scripts/target-stub.mjs [port]
+//
+// Point a rule's `target` (or one of its `fallbacks`) at http://127.0.0.1:8789/ while running
+// `wrangler dev --test-scheduled`, then trigger a probe with
+// `curl "http://localhost:8787/__scheduled?cron=*/5+*+*+*+*"`.
+// `curl -X POST http://127.0.0.1:8789/__down` makes every request answer 503 until
+// `curl -X POST http://127.0.0.1:8789/__up`.
+import { createServer } from "node:http";
+
+const port = Number(process.argv[2] || 8789);
+let down = process.env.DOWN === "1";
+
+createServer((req, res) => {
+  if (req.method === "POST" && (req.url === "/__down" || req.url === "/__up")) {
+    down = req.url === "/__down";
+    console.log(`${new Date().toISOString()} now ${down ? "down" : "up"}`);
+    res.writeHead(204);
+    res.end();
+    return;
+  }
+  console.log(`${new Date().toISOString()} ${req.method} ${req.url} -> ${down ? 503 : 200}`);
+  res.writeHead(down ? 503 : 200, { "Content-Type": "text/plain; charset=utf-8" });
+  res.end(down ? "down\n" : "ok\n");
+}).listen(port, () => {
+  console.log(`Target stub listening on http://127.0.0.1:${port}/`);
+});
@@ -42,10 +42,26 @@ const DEFAULT_FLAGS = {
   strictBots: true,
   yandexBots: ["YandexBot", "YandexMobileBot"],
   googleBots: ["Googlebot", "AdsBot-Google-Mobile"],
+  botAsns: [],
+  tabletUserAgentPatterns: ["ipad|tablet"],
+  mobileUserAgentPatterns: [
+    "(?=.*\\bandroid\\b).*mobile",
+    "iphone|ipod|windows phone|iemobile|blackberry|opera mini",
+  ],
+  botUserAgentPatterns: [],
   allowedAdminIps: [],
   uiTitle: "mini-tds admin",
   uiReadonly: false,
   uiReadOnlyBanner: "",
+  stickyCookieName: "tds_sticky",
+  stickyTtlSec: 2592000,
+  versionRetention: 20,
+  sessionLogin: false,
+  sessionTtlSec: 28800,
+  clickTtlSec: 2592000,
+  persistParams: [],
+  persistCookieName: "tds_params",
+  persistTtlSec: 2592000,
 };
 
 const nowIso = () => new Date().toISOString();
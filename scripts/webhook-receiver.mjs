@@ -0,0 +1,46 @@
+// Local stand-in for webhook endpoints: prints each delivery and checks its signature.
+//
+//   WEBHOOK_SECRET=dev-secret node scripts/webhook-receiver.mjs [port]
+//
+// Set `flags.webhooks` to [{ "url": "http://localhost:8788/" }] while running `wrangler dev`.
+// Send `FAIL=503` to answer every request with that status and exercise retries.
+import { createHmac, timingSafeEqual } from "node:crypto";
+import { createServer } from "node:http";
+
+const port = Number(process.argv[2] || 8788);
+const secret = process.env.WEBHOOK_SECRET || "";
+const failStatus = Number(process.env.FAIL || 0);
+
+function verify(header, body) {
+  if (!secret) return "unchecked (WEBHOOK_SECRET not set)";
+  const parts = Object.fromEntries(
+    String(header || "")
+      .split(",")
+      .map((part) => part.split("="))
+  );
+  if (!parts.t || !parts.v1) return "missing";
+  const expected = createHmac("sha256", secret).update(`${parts.t}.${body}`).digest("hex");
+  const ok =
+    expected.length === parts.v1.length &&
+    timingSafeEqual(Buffer.from(expected), Buffer.from(parts.v1));
+  return ok ? "valid" : "INVALID";
+}
+
+createServer((req, res) => {
+  let body = "";
+  req.on("data", (chunk) => {
+    body += chunk;
+  });
+  req.on("end", () => {
+    const signature = verify(req.headers["x-tds-signature"], body);
+    console.log(
+      `${new Date().toISOString()} ${req.headers["x-tds-event"]} ` +
+        `delivery=${req.headers["x-tds-delivery"]} signature=${signature}`
+    );
+    console.log(body);
+    res.writeHead(failStatus || 204);
+    res.end();
+  });
+}).listen(port, () => {
+  console.log(`Listening for webhooks on http://localhost:${port}/`);
+});
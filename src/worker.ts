@@ -10,32 +10,179 @@ export interface Env {
   CONFIG_KEY_FLAGS?: string;
   CONFIG_KEY_METADATA?: string;
   CONFIG_VERSION?: string;
+  STICKY_SECRET?: string;
+  SESSION_SECRET?: string;
+  WEBHOOK_SECRET?: string;
+  RATE_LIMITER?: DurableObjectNamespace;
+  RATE_LIMIT_KV?: KVNamespace;
+  CLICKS?: KVNamespace;
+  POSTBACK_SECRET?: string;
+  STATS?: KVNamespace;
 }
 
 /** ----------------------------- Configuration types ----------------------------- */
 export type Device = "mobile" | "desktop" | "tablet" | "any";
 
+export type OsFamily = "ios" | "android" | "windows" | "macos" | "chromeos" | "linux" | "other";
+
+export type BrowserFamily =
+  | "chrome"
+  | "safari"
+  | "firefox"
+  | "edge"
+  | "opera"
+  | "samsung"
+  | "yandex"
+  | "uc"
+  | "miui"
+  | "facebook"
+  | "instagram"
+  | "telegram"
+  | "tiktok"
+  | "twitter"
+  | "snapchat"
+  | "line"
+  | "wechat"
+  | "webview"
+  | "other";
+
+export interface OsCondition {
+  family: OsFamily;
+  minVersion?: string;
+  maxVersion?: string;
+}
+
+export type Weekday = "mon" | "tue" | "wed" | "thu" | "fri" | "sat" | "sun";
+
+export interface HourRange {
+  from: string;
+  to: string;
+}
+
+export interface ValueCondition {
+  equals?: string;
+  regex?: string;
+  present?: boolean;
+  absent?: boolean;
+}
+
 export interface MatchRule {
+  hosts?: string[];
   path?: string | string[];
   countries?: string[];
   devices?: Device[];
   bots?: boolean;
+  activeFrom?: string;
+  activeUntil?: string;
+  days?: Weekday[];
+  hours?: HourRange[];
+  timezone?: string;
+  query?: Record<string, ValueCondition>;
+  headers?: Record<string, ValueCondition>;
+  cookies?: Record<string, ValueCondition>;
+  referer?: ValueCondition;
+  asns?: number[];
+  ipRanges?: string[];
+  os?: Array<OsFamily | OsCondition>;
+  browsers?: BrowserFamily[];
+  inApp?: boolean;
+}
+
+export type ScheduleState = "always" | "active" | "pending" | "expired" | "off-hours";
+
+export interface CaptureRef {
+  name: string;
+  group?: number;
 }
 
 export interface RedirectQueryValue {
   fromPathGroup?: number;
+  fromQueryGroup?: CaptureRef;
+  fromHeaderGroup?: CaptureRef;
+  fromCookieGroup?: CaptureRef;
+  fromRefererGroup?: number;
   literal?: string;
 }
 
-export interface RedirectAction {
-  type: "redirect";
+export type RedirectQuery = Record<string, string | number | boolean | RedirectQueryValue>;
+
+export interface RedirectTarget {
+  id?: string;
   target: string;
-  status?: number;
-  query?: Record<string, string | number | boolean | RedirectQueryValue>;
+  weight?: number;
+  query?: RedirectQuery;
+  extraQuery?: Record<string, string>;
+}
+
+export type TouchModel = "first" | "last";
+
+/** Copies query params remembered by the persistence cookie (see `flags.persistParams`). */
+export interface PersistedParamsMapping {
+  /** Stored param → target param. When omitted, every stored param keeps its name. */
+  map?: Record<string, string>;
+  /** Use the params from the visitor's first or latest tagged visit. Defaults to `first`. */
+  touch?: TouchModel;
+}
+
+/** Fields shared by actions that build a destination URL from `target` / `targets`. */
+export interface TargetedAction {
+  target?: string;
+  targets?: RedirectTarget[];
+  query?: RedirectQuery;
   preserveOriginalQuery?: boolean;
   extraQuery?: Record<string, string>;
   appendCountry?: boolean;
   appendDevice?: boolean;
+  appendOs?: boolean;
+  appendBrowser?: boolean;
+  appendInApp?: boolean;
+  appendVariant?: boolean;
+  /** Ordered targets used instead of the chosen one while its origin is marked down. */
+  fallbacks?: string[];
+  persistedParams?: PersistedParamsMapping;
+}
+
+export type RedirectMode = "http" | "meta" | "js" | "double-meta";
+
+export interface RedirectAction extends TargetedAction {
+  type: "redirect";
+  status?: number;
+  mode?: RedirectMode;
+  /** When set, a click id is minted per redirect and appended under this query param. */
+  clickIdParam?: string;
+}
+
+export interface HeaderRules {
+  set?: Record<string, string>;
+  remove?: string[];
+}
+
+export interface TargetHealth {
+  origin: string;
+  up: boolean;
+  status: number | null;
+  error?: string;
+  failures: number;
+  checkedAt: string;
+  changedAt: string;
+}
+
+export type TargetHealthMap = Record<string, TargetHealth>;
+
+export interface ProxyAction extends TargetedAction {
+  type: "proxy";
+  /** Applied to the upstream request after hop-by-hop headers are dropped. */
+  requestHeaders?: HeaderRules;
+  /** Applied to the upstream response before it is returned. */
+  responseHeaders?: HeaderRules;
+  /**
+   * Host sent upstream instead of the target URL host. Implemented with `cf.resolveOverride`,
+   * so both hosts must be in the Worker's zone.
+   */
+  hostHeader?: string;
+  timeoutMs?: number;
+  /** Rewrite absolute links to the upstream origin in HTML to the visitor-facing origin. */
+  rewriteLinks?: boolean;
 }
 
 export interface ResponseAction {
@@ -46,42 +193,220 @@ export interface ResponseAction {
   bodyText?: string;
 }
 
-export type RouteAction = RedirectAction | ResponseAction;
+export type RouteAction = RedirectAction | ProxyAction | ResponseAction;
+
+export type RateLimitKey = "ip" | "subnet" | "ip-ua";
+export type RateLimitExceeded = "skip" | "block" | "response";
+
+export interface RateLimit {
+  requests: number;
+  windowSec: number;
+  /** `subnet` groups IPv4 by /24 and IPv6 by /64. Defaults to `ip`. */
+  key?: RateLimitKey;
+  /** Defaults to `block` (429). */
+  onLimit?: RateLimitExceeded;
+  response?: Omit<ResponseAction, "type">;
+}
 
 export interface RouteRule {
   id: string;
   enabled?: boolean;
+  sticky?: boolean;
+  rateLimit?: RateLimit;
   match: MatchRule;
   action: RouteAction;
 }
 
+export type IssueSeverity = "error" | "warning";
+
+export interface ValidationIssue {
+  /** JSON pointer into the request body, e.g. `/routes/2/action/status`. */
+  path: string;
+  severity: IssueSeverity;
+  message: string;
+  ruleId?: string;
+}
+
+export type WebhookFormat = "json" | "slack" | "telegram";
+
+export interface WebhookConfig {
+  url: string;
+  /** Payload shape; `slack` and `telegram` send a short text message. */
+  format?: WebhookFormat;
+  /** Telegram `chat_id`, required for the `telegram` format. */
+  chatId?: string;
+  /** Audit actions to deliver; all actions when omitted. */
+  events?: string[];
+}
+
 export interface FlagsConfig {
   cacheTtlMs: number;
   strictBots: boolean;
   yandexBots: string[];
   googleBots: string[];
+  botAsns?: number[];
+  tabletUserAgentPatterns?: string[];
+  mobileUserAgentPatterns?: string[];
+  botUserAgentPatterns?: string[];
   allowedAdminIps: string[];
   uiTitle: string;
   uiReadonly: boolean;
   uiReadOnlyBanner?: string;
   webhookUrl?: string;
+  webhooks?: WebhookConfig[];
+  stickyCookieName?: string;
+  stickyTtlSec?: number;
+  versionRetention?: number;
+  sessionLogin?: boolean;
+  sessionTtlSec?: number;
+  clickTtlSec?: number;
+  persistParams?: string[];
+  persistCookieName?: string;
+  persistTtlSec?: number;
+}
+
+export interface ClickRecord {
+  id: string;
+  ruleId: string;
+  variant: string;
+  target: string;
+  country: string;
+  device: Device;
+  uaHash: string;
+  ts: string;
+  query: Record<string, string>;
 }
 
+export interface ConversionRecord {
+  clickId: string;
+  ruleId: string;
+  status: string;
+  payout: number;
+  country: string;
+  device: Device;
+  clickedAt: string;
+  ts: string;
+}
+
+export interface ConversionStats {
+  ruleId: string;
+  conversions: number;
+  payout: number;
+  statuses: Record<string, { count: number; payout: number }>;
+  countries: Record<string, number>;
+  devices: Record<string, number>;
+  lastAt: string;
+}
+
+export interface StatsAggregate {
+  hits: number;
+  bots: number;
+  /** Hits answered by the rule's rate limit instead of its action. */
+  limited: number;
+  countries: Record<string, number>;
+  devices: Record<string, number>;
+  /** Target URL (template, after failover) the hit was sent to, or ORIGIN_STATS_ID. */
+  targets: Record<string, number>;
+}
+
+/** Rule id (or ORIGIN_STATS_ID) → counts for one minute or hour. */
+export type StatsBucket = Record<string, StatsAggregate>;
+
+export type StatsGroupBy = "rule" | "country" | "device" | "bot" | "target" | "limited";
+
 export interface MetadataRecord {
   version: string;
   updatedAt: string;
   updatedBy: string;
 }
 
+export interface UaClassifier {
+  tablet: RegExp[];
+  mobile: RegExp[];
+  bot: RegExp[];
+}
+
 export interface ConfigBundle {
   routes: RouteRule[];
   flags: FlagsConfig;
   metadata: MetadataRecord;
+  classifier: UaClassifier;
   etag: string;
   loadedAt: number;
   expiresAt: number;
 }
 
+export type Role = "viewer" | "editor" | "admin";
+
+export interface UserRecord {
+  username: string;
+  role: Role;
+  tokenHash: string;
+  disabled?: boolean;
+  createdAt: string;
+  createdBy: string;
+  updatedAt?: string;
+}
+
+export interface Principal {
+  username: string;
+  role: Role;
+  breakGlass: boolean;
+  /** Present when the caller authenticated with a session cookie. */
+  csrf?: string;
+}
+
+export interface ConfigSnapshot {
+  routes: RouteRule[];
+  flags: FlagsConfig;
+  metadata: MetadataRecord;
+  etag: string;
+}
+
+export interface VersionRecord {
+  etag: string;
+  createdAt: string;
+  actor: string;
+  action: string;
+}
+
+export interface JsonPatchOp {
+  op: "add" | "remove" | "replace";
+  path: string;
+  value?: unknown;
+}
+
+export interface RuleChange {
+  id: string;
+  ops: JsonPatchOp[];
+}
+
+export interface ConfigDiff {
+  rulesAdded: string[];
+  rulesRemoved: string[];
+  rulesReordered: string[];
+  rulesChanged: RuleChange[];
+  flagsChanged: string[];
+}
+
+export interface AuditQuery {
+  limit: number;
+  cursor?: string;
+  actor?: string;
+  action?: string;
+  rule?: string;
+  from?: string;
+  to?: string;
+}
+
+interface AuditKeyMetadata {
+  ts?: string;
+  actor: string;
+  action: string;
+  rules?: string[];
+  rulesTruncated?: boolean;
+}
+
 export interface AuditEntry {
   ts: string;
   actor: string;
@@ -89,6 +414,7 @@ export interface AuditEntry {
   prevHash?: string;
   newHash?: string;
   diffBytes?: number;
+  diff?: ConfigDiff;
   note?: string;
   error?: string;
 }
@@ -99,18 +425,205 @@ const DEFAULT_FLAGS: FlagsConfig = {
   strictBots: true,
   yandexBots: ["YandexBot", "YandexMobileBot"],
   googleBots: ["Googlebot", "AdsBot-Google-Mobile"],
+  botAsns: [],
+  tabletUserAgentPatterns: ["ipad|tablet"],
+  mobileUserAgentPatterns: [
+    "(?=.*\\bandroid\\b).*mobile",
+    "iphone|ipod|windows phone|iemobile|blackberry|opera mini",
+  ],
+  botUserAgentPatterns: [],
   allowedAdminIps: [],
   uiTitle: "mini-tds admin",
   uiReadonly: false,
   uiReadOnlyBanner: "",
+  stickyCookieName: "tds_sticky",
+  stickyTtlSec: 30 * 24 * 3600,
+  versionRetention: 20,
+  sessionLogin: false,
+  sessionTtlSec: 8 * 3600,
+  clickTtlSec: 30 * 24 * 3600,
+  persistParams: [],
+  persistCookieName: "tds_params",
+  persistTtlSec: 30 * 24 * 3600,
 };
 
+const OS_FAMILIES: OsFamily[] = [
+  "ios",
+  "android",
+  "windows",
+  "macos",
+  "chromeos",
+  "linux",
+  "other",
+];
+const BROWSER_FAMILIES: BrowserFamily[] = [
+  "chrome",
+  "safari",
+  "firefox",
+  "edge",
+  "opera",
+  "samsung",
+  "yandex",
+  "uc",
+  "miui",
+  "facebook",
+  "instagram",
+  "telegram",
+  "tiktok",
+  "twitter",
+  "snapchat",
+  "line",
+  "wechat",
+  "webview",
+  "other",
+];
+const VERSION_RE = /^\d+(?:\.\d+)*$/;
+
+const WEEKDAYS: Weekday[] = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+const HOST_RE = /^(?:\*\.)?(?:[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?\.)*[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?$/;
+const HOUR_RE = /^(?:[01]\d|2[0-3]):[0-5]\d$|^24:00$/;
+const DEVICES: Device[] = ["mobile", "desktop", "tablet", "any"];
+const ACTION_TYPES = ["redirect", "proxy", "response"];
+const REDIRECT_STATUSES = [301, 302, 303, 307, 308];
+const RULE_KEYS = ["id", "enabled", "sticky", "rateLimit", "match", "action"];
+const RATE_LIMIT_FIELDS = ["requests", "windowSec", "key", "onLimit", "response"];
+const RATE_LIMIT_KEYS: RateLimitKey[] = ["ip", "subnet", "ip-ua"];
+const RATE_LIMIT_EXCEEDED: RateLimitExceeded[] = ["skip", "block", "response"];
+const RATE_LIMIT_WINDOW_MAX_SEC = 86_400;
+const RATE_LIMIT_PREFIX = "RATE";
+const CLICKS_PREFIX = "CLICKS";
+const CONVERSIONS_PREFIX = "CONVERSIONS";
+const CONVERSION_STATS_PREFIX = "CONVERSION_STATS";
+const POSTBACK_PATH = "/postback";
+const QUERY_PARAM_RE = /^[A-Za-z0-9_.-]{1,64}$/;
+const TOUCH_MODELS: TouchModel[] = ["first", "last"];
+const PERSIST_PATTERN_RE = /^[A-Za-z0-9_.-]+\*?$/;
+const PERSIST_MAX_PARAMS = 10;
+const PERSIST_MAX_VALUE_LENGTH = 100;
+// JSON bytes per touch; two touches, base64url and the signature stay under ~3.5 KB.
+const PERSIST_TOUCH_MAX_BYTES = 1_200;
+const STICKY_MAX_RULES = 20;
+const STATS_PREFIX = "STATS";
+const ORIGIN_STATS_ID = "(origin)";
+const STATS_FLUSH_INTERVAL_MS = 10_000;
+const STATS_MINUTE_TTL_SEC = 2 * 24 * 3600;
+const STATS_HOUR_TTL_SEC = 35 * 24 * 3600;
+const STATS_MINUTE_RANGE_MS = 3 * 3600_000;
+const STATS_MAX_RANGE_MS = 7 * 24 * 3600_000;
+const STATS_GROUP_BY: StatsGroupBy[] = ["rule", "country", "device", "bot", "target", "limited"];
+const CONVERSION_STATUS_RE = /^[a-z0-9_-]{1,32}$/;
+const MATCH_KEYS = [
+  "hosts",
+  "path",
+  "countries",
+  "devices",
+  "bots",
+  "activeFrom",
+  "activeUntil",
+  "days",
+  "hours",
+  "timezone",
+  "query",
+  "headers",
+  "cookies",
+  "referer",
+  "asns",
+  "ipRanges",
+  "os",
+  "browsers",
+  "inApp",
+];
+const REDIRECT_BOOLEAN_KEYS = [
+  "preserveOriginalQuery",
+  "appendCountry",
+  "appendDevice",
+  "appendOs",
+  "appendBrowser",
+  "appendInApp",
+  "appendVariant",
+] as const;
+const TARGETED_KEYS = [
+  "type",
+  "target",
+  "targets",
+  "fallbacks",
+  "query",
+  "extraQuery",
+  "persistedParams",
+].concat(REDIRECT_BOOLEAN_KEYS);
+const REDIRECT_KEYS = TARGETED_KEYS.concat(["status", "mode", "clickIdParam"]);
+const REDIRECT_MODES: RedirectMode[] = ["http", "meta", "js", "double-meta"];
+const REDIRECT_HOP_PATH = "/__tds/hop";
+const REDIRECT_HOP_TTL_MS = 60_000;
+const PROXY_KEYS = TARGETED_KEYS.concat([
+  "requestHeaders",
+  "responseHeaders",
+  "hostHeader",
+  "timeoutMs",
+  "rewriteLinks",
+]);
+const PROXY_TIMEOUT_MS = 10_000;
+const PROXY_TIMEOUT_MAX_MS = 30_000;
+/** RFC 9110 §7.6.1 connection-specific headers, never forwarded in either direction. */
+const HOP_BY_HOP_HEADERS = [
+  "connection",
+  "keep-alive",
+  "proxy-authenticate",
+  "proxy-authorization",
+  "proxy-connection",
+  "te",
+  "trailer",
+  "transfer-encoding",
+  "upgrade",
+];
+const RESPONSE_KEYS = ["type", "status", "headers", "bodyHtml", "bodyText"];
+const TARGET_KEYS = ["id", "target", "weight", "query", "extraQuery"];
+const QUERY_SOURCES = [
+  "fromPathGroup",
+  "fromQueryGroup",
+  "fromHeaderGroup",
+  "fromCookieGroup",
+  "fromRefererGroup",
+  "literal",
+];
+/** Codes Cloudflare never reports because ISO 3166-1 uses another one. */
+const COUNTRY_ALIASES: Record<string, string> = { UK: "GB" };
+const regionNames =
+  typeof Intl.DisplayNames === "function"
+    ? new Intl.DisplayNames(["en"], { type: "region" })
+    : null;
+
 const CONFIG_PREFIX = "CONFIG";
 const AUDIT_PREFIX = "AUDIT";
+const VERSIONS_PREFIX = "VERSIONS";
+const USERS_PREFIX = "USERS";
+const USER_TOKENS_PREFIX = "USER_TOKENS";
+const ROLES: Role[] = ["viewer", "editor", "admin"];
+const USERNAME_RE = /^[a-z0-9][a-z0-9._-]{0,62}$/i;
+const WEBHOOK_FORMATS: WebhookFormat[] = ["json", "slack", "telegram"];
+const WEBHOOK_MAX_ATTEMPTS = 3;
+const WEBHOOK_BACKOFF_MS = 1_000;
+const WEBHOOK_TIMEOUT_MS = 5_000;
 const MIN_TTL = 5_000;
+const AUDIT_PAGE_MAX = 100;
+const AUDIT_METADATA_RULES_MAX = 20;
+const AUDIT_SCAN_PAGES = 10;
+// Audit keys lead with (AUDIT_TS_CEILING - epoch ms), zero-padded, so KV lists them newest first.
+const AUDIT_TS_CEILING = 9_999_999_999_999;
+const AUDIT_TS_WIDTH = 14;
+
+const HEALTH_KEY = "TARGET_HEALTH";
+const HEALTH_PROBE_TIMEOUT_MS = 5_000;
+const HEALTH_FAILURE_THRESHOLD = 2;
 
 /** ----------------------------- Global state ----------------------------- */
 let cachedConfig: ConfigBundle | null = null;
+let cachedHealth: { states: TargetHealthMap; expiresAt: number } | null = null;
+let memoryCounters: MemoryCounterStore | null = null;
+let memoryStats: MemoryStatsStore | null = null;
+let pendingStats = new Map<string, StatsBucket>();
+let lastStatsFlush = 0;
+let statsFlush: Promise<void> | null = null;
 let initPromise: Promise<void> | null = null;
 
 /** ----------------------------- Utilities ----------------------------- */
@@ -127,6 +640,16 @@ function escapeHtml(value: string): string {
     .replace(/'/g, "&#39;");
 }
 
+/** Returns a double-quoted JS string literal that is also safe inside an inline `<script>`. */
+function escapeJsString(value: string): string {
+  return JSON.stringify(value)
+    .replace(/</g, "\\u003c")
+    .replace(/>/g, "\\u003e")
+    .replace(/&/g, "\\u0026")
+    .replace(/\u2028/g, "\\u2028")
+    .replace(/\u2029/g, "\\u2029");
+}
+
 // @ts-ignore — в рантайме binding может быть не задан
 function hasKv(env: Env): boolean {
   return Boolean((env as any)?.CONFIG && (env as any)?.AUDIT);
@@ -142,10 +665,10 @@ function configKey(env: Env, suffix: string): string {
   return `${CONFIG_PREFIX}/${key}`;
 }
 
-function auditKey(): string {
-  const ts = nowIso();
+function auditKey(ts: string): string {
+  const inverted = String(AUDIT_TS_CEILING - Date.parse(ts)).padStart(AUDIT_TS_WIDTH, "0");
   const id = crypto.randomUUID();
-  return `${AUDIT_PREFIX}/${ts}-${id}`;
+  return `${AUDIT_PREFIX}/${inverted}-${ts}-${id}`;
 }
 
 async function hashText(input: string): Promise<string> {
@@ -157,14 +680,51 @@ async function hashText(input: string): Promise<string> {
   return `sha256:${hex}`;
 }
 
+/** Compares secrets without leaking the matching prefix length through timing. */
+async function secretsEqual(given: string, expected: string): Promise<boolean> {
+  const [a, b] = await Promise.all(
+    [given, expected].map(async (value) =>
+      new Uint8Array(await crypto.subtle.digest("SHA-256", new TextEncoder().encode(value)))
+    )
+  );
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a[i] ^ b[i];
+  return diff === 0;
+}
+
 function ensureArray<T>(value: T | T[] | undefined): T[] | undefined {
   if (typeof value === "undefined") return undefined;
   return Array.isArray(value) ? value : [value];
 }
 
+/** Decodes the path segment after `prefix`; malformed percent-encoding is a 400, not a 500. */
+function pathParam(pathname: string, prefix: string): string {
+  try {
+    return decodeURIComponent(pathname.slice(prefix.length));
+  } catch {
+    throw Object.assign(new Error(`Malformed path: ${pathname}`), { status: 400 });
+  }
+}
+
+/** Every admin endpoint takes a JSON object; anything else is a 400 at the document root. */
 function parseJsonBody<T>(body: string | null): T {
-  if (!body) throw new Error("Empty body");
-  return JSON.parse(body) as T;
+  if (!body) throw Object.assign(new Error("Empty body"), { status: 400 });
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(body);
+  } catch (error) {
+    throw Object.assign(new Error(`Invalid JSON body: ${(error as Error).message}`), {
+      status: 400,
+    });
+  }
+  if (!isPlainObject(parsed)) {
+    const message = "body must be a JSON object";
+    throw Object.assign(new Error(message), {
+      status: 400,
+      issues: [{ path: "", severity: "error", message }],
+    });
+  }
+  return parsed as T;
 }
 
 function copyHeaders(headers: Record<string, string> | undefined): Headers {
@@ -176,25 +736,39 @@ function copyHeaders(headers: Record<string, string> | undefined): Headers {
   return h;
 }
 
+function readCookie(headers: Headers, name: string): string | null {
+  const header = headers.get("cookie");
+  if (!header) return null;
+  for (const part of header.split(";")) {
+    const eq = part.indexOf("=");
+    if (eq === -1) continue;
+    if (part.slice(0, eq).trim() === name) {
+      return part.slice(eq + 1).trim();
+    }
+  }
+  return null;
+}
+
 function maskToken(token: string | undefined): string {
   if (!token) return "<empty>";
   if (token.length <= 4) return "****";
   return `${token.slice(0, 2)}****${token.slice(-2)}`;
 }
 
-function buildActor(request: Request): string {
+function buildActor(request: Request, username = "admin"): string {
   const ip =
     request.headers.get("cf-connecting-ip") ||
     request.headers.get("x-forwarded-for") ||
     "unknown";
-  return `admin@ip-${ip}`;
+  return `${username}@ip-${ip}`;
 }
 
-function readAdminToken(request: Request): string | null {
+function readAdminToken(request: Request, allowQuery = true): string | null {
   const auth = request.headers.get("authorization");
   if (auth && auth.startsWith("Bearer ")) {
     return auth.slice("Bearer ".length).trim();
   }
+  if (!allowQuery) return null;
   const url = new URL(request.url);
   const token = url.searchParams.get("token");
   return token;
@@ -206,13 +780,36 @@ function isIpAllowed(ip: string | undefined | null, flags: FlagsConfig): boolean
   return flags.allowedAdminIps.includes(ip.trim());
 }
 
-async function writeAudit(env: Env, entry: AuditEntry): Promise<void> {
+function auditRuleIds(diff: ConfigDiff | undefined): string[] {
+  if (!diff) return [];
+  const ids = new Set<string>([
+    ...diff.rulesAdded,
+    ...diff.rulesRemoved,
+    ...diff.rulesReordered,
+    ...diff.rulesChanged.map((change) => change.id),
+  ]);
+  return Array.from(ids);
+}
+
+async function writeAudit(env: Env, entry: AuditEntry, ctx?: ExecutionContext): Promise<void> {
   if (!hasKv(env)) return;
   try {
-    await env.AUDIT.put(auditKey(), JSON.stringify(entry));
+    const rules = auditRuleIds(entry.diff);
+    // List metadata lets /api/audit filter entries without reading every value.
+    const metadata: AuditKeyMetadata = {
+      ts: entry.ts,
+      actor: entry.actor,
+      action: entry.action,
+      rules: rules.slice(0, AUDIT_METADATA_RULES_MAX),
+      rulesTruncated: rules.length > AUDIT_METADATA_RULES_MAX || undefined,
+    };
+    await env.AUDIT.put(auditKey(entry.ts), JSON.stringify(entry), { metadata });
   } catch (error) {
     console.error("Failed to write audit entry", error);
   }
+  if (ctx && !entry.action.startsWith("webhook.")) {
+    ctx.waitUntil(deliverWebhooks(env, entry));
+  }
 }
 
 async function loadRawConfig(env: Env): Promise<{
@@ -275,6 +872,7 @@ async function hydrateCache(env: Env, forceReload = false): Promise<ConfigBundle
     routes: raw.routes,
     flags: raw.flags,
     metadata: raw.metadata,
+    classifier: compileClassifier(raw.flags),
     etag,
     loadedAt: Date.now(),
     expiresAt: Date.now() + ttl,
@@ -282,8 +880,35 @@ async function hydrateCache(env: Env, forceReload = false): Promise<ConfigBundle
   return cachedConfig;
 }
 
+function compilePatterns(patterns: string[] | undefined, label: string): RegExp[] {
+  const compiled: RegExp[] = [];
+  (patterns ?? []).forEach((pattern) => {
+    try {
+      compiled.push(new RegExp(pattern, "i"));
+    } catch (error) {
+      console.error(`Skipping invalid ${label} pattern`, pattern, error);
+    }
+  });
+  return compiled;
+}
+
+function compileClassifier(flags: FlagsConfig): UaClassifier {
+  return {
+    tablet: compilePatterns(
+      flags.tabletUserAgentPatterns ?? DEFAULT_FLAGS.tabletUserAgentPatterns,
+      "tablet"
+    ),
+    mobile: compilePatterns(
+      flags.mobileUserAgentPatterns ?? DEFAULT_FLAGS.mobileUserAgentPatterns,
+      "mobile"
+    ),
+    bot: compilePatterns(flags.botUserAgentPatterns, "bot"),
+  };
+}
+
 function invalidateCache(): void {
   cachedConfig = null;
+  cachedHealth = null;
 }
 
 async function ensureConfigInitialized(env: Env): Promise<void> {
@@ -316,13 +941,20 @@ async function ensureConfigInitialized(env: Env): Promise<void> {
       env.CONFIG.put(configKey(env, "metadata"), JSON.stringify(meta)),
     ]);
 
+    const etag = await computeEtag({ routes, flags, metadata: meta });
     await writeAudit(env, {
       ts: meta.updatedAt,
       actor: "bootstrap",
       action: "config.bootstrap",
-      newHash: await computeEtag({ routes, flags, metadata: meta }),
+      newHash: etag,
       note: `Initialized with defaults (${routes.length} routes)`,
     });
+    await recordVersion(
+      env,
+      { routes, flags, metadata: meta, etag },
+      "bootstrap",
+      "config.bootstrap"
+    );
     invalidateCache();
   })()
     .catch(async (error) => {
@@ -341,210 +973,2221 @@ async function ensureConfigInitialized(env: Env): Promise<void> {
   return initPromise;
 }
 
-/** ----------------------------- Matching ----------------------------- */
-interface MatchContext {
-  route: RouteRule;
-  pathMatch: RegExpMatchArray | null;
+/** ----------------------------- Version history ----------------------------- */
+function versionKey(etag: string): string {
+  return `${VERSIONS_PREFIX}/${etag}`;
 }
 
-function detectDevice(uaRaw: string): Device {
-  const ua = uaRaw.toLowerCase();
-  if (!uaRaw) return "desktop";
-  const tabletKeywords = ["ipad", "tablet"];
-  if (tabletKeywords.some((key) => ua.includes(key))) {
-    return "tablet";
-  }
-  if (/\bandroid\b/i.test(uaRaw) && ua.includes("mobile")) {
-    return "mobile";
-  }
-  if (/(iphone|ipod|windows phone|iemobile|blackberry|opera mini)/i.test(uaRaw)) {
-    return "mobile";
-  }
-  return "desktop";
+function versionIndexKey(): string {
+  return `${VERSIONS_PREFIX}/index`;
 }
 
-function isBotAgent(uaRaw: string, flags: FlagsConfig, cfBot?: boolean): boolean {
-  if (!uaRaw && cfBot) return true;
-  const ua = (uaRaw || "").toLowerCase();
-  const knownBots = [
-    ...(flags.strictBots ? flags.yandexBots : []),
-    ...(flags.strictBots ? flags.googleBots : []),
-  ].map((name) => name.toLowerCase());
-  if (knownBots.some((sig) => ua.includes(sig.toLowerCase()))) {
-    return true;
-  }
-  return Boolean(cfBot);
+async function loadVersionIndex(env: Env): Promise<VersionRecord[]> {
+  const index = await env.CONFIG.get<VersionRecord[]>(versionIndexKey(), "json");
+  return Array.isArray(index) ? index : [];
 }
 
-function matchRoute(
-  rule: RouteRule,
-  pathname: string,
-  country: string,
-  device: Device,
-  isBot: boolean
-): MatchContext | null {
-  if (rule.enabled === false) return null;
-  const match = rule.match || {};
-  const paths = ensureArray(match.path);
-  let pathMatch: RegExpMatchArray | null = null;
-  if (paths && paths.length > 0) {
-    const ok = paths.some((pattern) => {
-      try {
-        const re = new RegExp(pattern);
-        const res = pathname.match(re);
-        if (res) {
-          pathMatch = res;
-          return true;
-        }
-        return false;
-      } catch {
-        return false;
-      }
-    });
-    if (!ok) return null;
-  }
+async function loadVersion(env: Env, etag: string): Promise<ConfigSnapshot | null> {
+  return env.CONFIG.get<ConfigSnapshot>(versionKey(etag), "json");
+}
 
-  if (match.countries && match.countries.length > 0) {
-    if (!match.countries.includes(country)) return null;
-  }
-  if (match.devices && match.devices.length > 0 && !match.devices.includes("any")) {
-    if (!match.devices.includes(device)) return null;
-  }
-  if (typeof match.bots === "boolean") {
-    if (match.bots && !isBot) return null;
-    if (!match.bots && isBot) return null;
-  }
+/**
+ * Stores an immutable snapshot of a published config and prunes the oldest
+ * snapshots beyond `flags.versionRetention`. When `previous` has no snapshot yet
+ * (config written before history existed) it is recorded first so it stays
+ * reachable for rollback. The index is read-modify-write, so two versions recorded
+ * concurrently can drop one entry; its snapshot key survives but goes unlisted.
+ */
+async function recordVersion(
+  env: Env,
+  snapshot: ConfigSnapshot,
+  actor: string,
+  action: string,
+  previous?: ConfigSnapshot
+): Promise<void> {
+  if (!hasKv(env)) return;
+  try {
+    let index = await loadVersionIndex(env);
+    const entries: Array<[ConfigSnapshot, VersionRecord]> = [];
+    if (previous && !index.some((item) => item.etag === previous.etag)) {
+      entries.push([
+        previous,
+        {
+          etag: previous.etag,
+          createdAt: previous.metadata.updatedAt,
+          actor: previous.metadata.updatedBy,
+          action: "snapshot",
+        },
+      ]);
+    }
+    entries.push([snapshot, { etag: snapshot.etag, createdAt: nowIso(), actor, action }]);
+
+    for (const [config, record] of entries) {
+      const body: ConfigSnapshot = {
+        routes: config.routes,
+        flags: config.flags,
+        metadata: config.metadata,
+        etag: config.etag,
+      };
+      await env.CONFIG.put(versionKey(record.etag), JSON.stringify(body));
+      index = [record, ...index.filter((item) => item.etag !== record.etag)];
+    }
 
-  return { route: rule, pathMatch };
+    const retention = Math.max(
+      1,
+      Math.floor(snapshot.flags.versionRetention ?? DEFAULT_FLAGS.versionRetention!)
+    );
+    const pruned = index.slice(retention);
+    index = index.slice(0, retention);
+    await env.CONFIG.put(versionIndexKey(), JSON.stringify(index));
+    await Promise.all(pruned.map((item) => env.CONFIG.delete(versionKey(item.etag))));
+  } catch (error) {
+    console.error("Failed to record config version", error);
+  }
 }
 
-/** ----------------------------- Action execution ----------------------------- */
-function applyRedirect(
-  action: RedirectAction,
-  context: MatchContext,
-  request: Request,
-  country: string,
-  device: Device
-): Response {
-  const target = new URL(action.target);
-  const requestUrl = new URL(request.url);
+/** ----------------------------- Config diff ----------------------------- */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
 
-  if (action.preserveOriginalQuery) {
-    requestUrl.searchParams.forEach((value, key) => {
-      target.searchParams.set(key, value);
-    });
+function sameJson(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, i) => sameJson(item, b[i]));
   }
-
-  if (action.extraQuery) {
-    for (const [key, value] of Object.entries(action.extraQuery)) {
-      target.searchParams.set(key, value);
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+    for (const key of keys) {
+      if (!sameJson(a[key], b[key])) return false;
     }
+    return true;
   }
+  return false;
+}
 
-  if (action.query) {
-    Object.entries(action.query).forEach(([key, value]) => {
-      if (typeof value === "object" && value !== null && "fromPathGroup" in value) {
-        const index = value.fromPathGroup ?? 0;
-        const segment = context.pathMatch?.[index] || "";
-        if (segment) {
-          target.searchParams.set(key, segment);
-        }
-      } else if (typeof value === "object" && value !== null && "literal" in value) {
-        target.searchParams.set(key, String(value.literal ?? ""));
+function pointerSegment(key: string): string {
+  return key.replace(/~/g, "~0").replace(/\//g, "~1");
+}
+
+/** Emits JSON-patch style operations; arrays are replaced as a whole. */
+function diffJson(prev: unknown, next: unknown, path: string, ops: JsonPatchOp[]): void {
+  if (sameJson(prev, next)) return;
+  if (isPlainObject(prev) && isPlainObject(next)) {
+    for (const key of Object.keys(prev)) {
+      const child = `${path}/${pointerSegment(key)}`;
+      if (!(key in next)) {
+        ops.push({ op: "remove", path: child });
       } else {
-        target.searchParams.set(key, String(value));
+        diffJson(prev[key], next[key], child, ops);
       }
-    });
+    }
+    for (const key of Object.keys(next)) {
+      if (!(key in prev)) {
+        ops.push({ op: "add", path: `${path}/${pointerSegment(key)}`, value: next[key] });
+      }
+    }
+    return;
   }
+  ops.push({ op: "replace", path, value: next });
+}
 
-  if (action.appendCountry) {
-    target.searchParams.set("country", country);
-  }
-  if (action.appendDevice) {
-    target.searchParams.set("device", device);
-  }
+function diffConfig(
+  prev: { routes: RouteRule[]; flags: FlagsConfig },
+  next: { routes: RouteRule[]; flags: FlagsConfig }
+): ConfigDiff {
+  const prevById = new Map(prev.routes.map((rule) => [rule.id, rule]));
+  const nextById = new Map(next.routes.map((rule) => [rule.id, rule]));
+  const rulesAdded = next.routes.filter((rule) => !prevById.has(rule.id)).map((rule) => rule.id);
+  const rulesRemoved = prev.routes
+    .filter((rule) => !nextById.has(rule.id))
+    .map((rule) => rule.id);
+
+  const prevOrder = prev.routes.map((rule) => rule.id).filter((id) => nextById.has(id));
+  const nextOrder = next.routes.map((rule) => rule.id).filter((id) => prevById.has(id));
+  const rulesReordered = nextOrder.filter((id, i) => prevOrder[i] !== id);
+
+  const rulesChanged: RuleChange[] = [];
+  nextById.forEach((rule, id) => {
+    const before = prevById.get(id);
+    if (!before) return;
+    const ops: JsonPatchOp[] = [];
+    diffJson(before, rule, "", ops);
+    if (ops.length > 0) rulesChanged.push({ id, ops });
+  });
 
-  const status = action.status ?? 302;
-  return Response.redirect(target.toString(), status);
+  const prevFlags = prev.flags as unknown as Record<string, unknown>;
+  const nextFlags = next.flags as unknown as Record<string, unknown>;
+  const flagKeys = new Set([...Object.keys(prevFlags), ...Object.keys(nextFlags)]);
+  const flagsChanged = Array.from(flagKeys).filter(
+    (key) => !sameJson(prevFlags[key], nextFlags[key])
+  );
+
+  return { rulesAdded, rulesRemoved, rulesReordered, rulesChanged, flagsChanged };
 }
 
-function applyResponse(action: ResponseAction): Response {
-  const status = action.status ?? 200;
-  const headers = copyHeaders(action.headers);
-  if (!headers.has("Content-Type")) {
-    headers.set(
-      "Content-Type",
-      action.bodyHtml ? "text/html; charset=utf-8" : "text/plain; charset=utf-8"
-    );
+/** ----------------------------- Networks ----------------------------- */
+interface ParsedIp {
+  version: 4 | 6;
+  value: bigint;
+}
+
+interface ParsedCidr extends ParsedIp {
+  prefix: number;
+}
+
+function parseIpv4(ip: string): bigint | null {
+  const parts = ip.split(".");
+  if (parts.length !== 4) return null;
+  let value = 0n;
+  for (const part of parts) {
+    if (!/^\d{1,3}$/.test(part)) return null;
+    const octet = Number(part);
+    if (octet > 255) return null;
+    value = (value << 8n) | BigInt(octet);
   }
-  const body = action.bodyHtml ?? action.bodyText ?? "";
-  return new Response(body, { status, headers });
+  return value;
 }
 
-function executeRoute(
-  ctx: MatchContext,
-  request: Request,
-  country: string,
-  device: Device
-): Response {
-  const action = ctx.route.action;
-  if (!action) {
-    return new Response(null, { status: 204 });
+function parseIpv6(ip: string): bigint | null {
+  let text = ip.split("%")[0];
+  let tail: bigint | null = null;
+  const lastColon = text.lastIndexOf(":");
+  if (text.includes(".", lastColon)) {
+    tail = parseIpv4(text.slice(lastColon + 1));
+    if (tail === null) return null;
+    text = `${text.slice(0, lastColon + 1)}0:0`;
   }
-  if (action.type === "redirect") {
-    return applyRedirect(action, ctx, request, country, device);
+  const halves = text.split("::");
+  if (halves.length > 2) return null;
+  const head = halves[0] ? halves[0].split(":") : [];
+  const rest = halves.length === 2 && halves[1] ? halves[1].split(":") : [];
+  const missing = 8 - head.length - rest.length;
+  if (halves.length === 2 ? missing < 1 : missing !== 0) return null;
+  const groups = [...head, ...Array(halves.length === 2 ? missing : 0).fill("0"), ...rest];
+  let value = 0n;
+  for (const group of groups) {
+    if (!/^[0-9a-f]{1,4}$/i.test(group)) return null;
+    value = (value << 16n) | BigInt(parseInt(group, 16));
   }
-  if (action.type === "response") {
-    return applyResponse(action);
+  if (tail !== null) {
+    value = (value & ~0xffffffffn) | tail;
   }
-  return new Response(null, { status: 500, statusText: "Unknown action" });
+  return value;
 }
 
-/** ----------------------------- Validation ----------------------------- */
-function validateRoutesPayload(routes: unknown): asserts routes is RouteRule[] {
-  if (!Array.isArray(routes)) {
-    throw new Error("routes must be an array");
-  }
-  routes.forEach((rule, idx) => {
-    if (!rule || typeof rule !== "object") {
-      throw new Error(`route[${idx}] must be object`);
-    }
-    if (!("id" in rule) || typeof rule.id !== "string" || rule.id.trim() === "") {
-      throw new Error(`route[${idx}].id is required`);
-    }
-    if (!("match" in rule)) {
-      throw new Error(`route[${idx}].match is required`);
-    }
-    if (!("action" in rule)) {
-      throw new Error(`route[${idx}].action is required`);
-    }
-    const action = (rule as RouteRule).action;
-    if ((action as RouteAction).type === "redirect") {
-      if (!(action as RedirectAction).target) {
-        throw new Error(`route[${idx}].action.target is required`);
-      }
+function parseIp(ip: string): ParsedIp | null {
+  const trimmed = ip.trim();
+  if (trimmed.includes(":")) {
+    const value = parseIpv6(trimmed);
+    if (value === null) return null;
+    if (value >> 32n === 0xffffn) {
+      return { version: 4, value: value & 0xffffffffn };
     }
-  });
+    return { version: 6, value };
+  }
+  const value = parseIpv4(trimmed);
+  return value === null ? null : { version: 4, value };
 }
 
-function validateFlagsPayload(flags: unknown): asserts flags is FlagsConfig {
-  if (!flags || typeof flags !== "object") {
-    throw new Error("flags must be an object");
+function parseCidr(cidr: string): ParsedCidr | null {
+  const [address, prefixText, extra] = cidr.trim().split("/");
+  if (typeof extra !== "undefined") return null;
+  const ip = parseIp(address);
+  if (!ip) return null;
+  // parseIp reports IPv4-mapped IPv6 (::ffff:a.b.c.d) as IPv4, but the prefix still counts
+  // all 128 bits, so ::ffff:0:0/96 is every IPv4 address.
+  const mapped = ip.version === 4 && address.includes(":");
+  const bits = ip.version === 4 && !mapped ? 32 : 128;
+  if (typeof prefixText === "undefined") return { ...ip, prefix: ip.version === 4 ? 32 : 128 };
+  if (!/^\d{1,3}$/.test(prefixText)) return null;
+  const prefix = Number(prefixText);
+  if (prefix > bits) return null;
+  if (mapped) {
+    return prefix >= 96
+      ? { ...ip, prefix: prefix - 96 }
+      : { version: 6, value: (0xffffn << 32n) | ip.value, prefix };
   }
-  if (
-    "uiReadOnlyBanner" in (flags as Record<string, unknown>) &&
-    (flags as Record<string, unknown>).uiReadOnlyBanner !== undefined &&
-    typeof (flags as Record<string, unknown>).uiReadOnlyBanner !== "string"
-  ) {
-    throw new Error("flags.uiReadOnlyBanner must be a string");
+  return { ...ip, prefix };
+}
+
+const cidrCache = new Map<string, ParsedCidr | null>();
+
+function ipInRange(ip: ParsedIp, cidr: string): boolean {
+  if (!cidrCache.has(cidr)) {
+    cidrCache.set(cidr, parseCidr(cidr));
   }
+  const range = cidrCache.get(cidr);
+  if (!range || range.version !== ip.version) return false;
+  const shift = BigInt((ip.version === 4 ? 32 : 128) - range.prefix);
+  return ip.value >> shift === range.value >> shift;
 }
 
-/** ----------------------------- Admin UI ----------------------------- */
-function adminHtml(
-  flags: FlagsConfig,
+/**
+ * Only Cloudflare's own header: X-Forwarded-For is whatever the visitor sent, so trusting it
+ * would let anyone pick their address for ipRanges and rate limits.
+ */
+function clientIp(request: Request): string {
+  return request.headers.get("cf-connecting-ip") || "";
+}
+
+/** ----------------------------- User-agent parsing ----------------------------- */
+interface ClientInfo {
+  os: OsFamily;
+  osVersion: string;
+  browser: BrowserFamily;
+  inApp: boolean;
+}
+
+const OS_SIGNATURES: Array<[OsFamily, RegExp]> = [
+  ["ios", /(?:iphone|ipad|ipod).*?(?:cpu (?:iphone )?os|iphone os) (\d+(?:[_.]\d+)*)/i],
+  ["ios", /\b(?:iphone|ipad|ipod)\b/i],
+  ["android", /\bandroid[ /]?(\d+(?:\.\d+)*)?/i],
+  ["windows", /\bwindows (?:nt|phone(?: os)?) (\d+(?:\.\d+)*)/i],
+  ["windows", /\bwindows\b/i],
+  ["chromeos", /\bcros\b/i],
+  ["macos", /\bmac os x (\d+(?:[_.]\d+)*)?/i],
+  ["linux", /\blinux\b/i],
+];
+
+/** In-app webviews come first: they embed a regular engine signature too. */
+const IN_APP_SIGNATURES: Array<[BrowserFamily, RegExp]> = [
+  ["instagram", /\binstagram\b/i],
+  ["facebook", /\bfb(?:an|av|_iab|ios)\b|\[fb/i],
+  ["telegram", /\btelegram(?:-android|bot)?\b/i],
+  ["tiktok", /\b(?:bytedancewebview|musical_ly|tiktok)\b/i],
+  ["twitter", /\btwitter(?:android| for)\b/i],
+  ["snapchat", /\bsnapchat\b/i],
+  ["line", /\bline\/\d/i],
+  ["wechat", /\bmicromessenger\b/i],
+];
+
+const BROWSER_SIGNATURES: Array<[BrowserFamily, RegExp]> = [
+  ["edge", /\bedg(?:e|a|ios)?\//i],
+  ["opera", /\b(?:opr|opios|opera)\b/i],
+  ["samsung", /\bsamsungbrowser\b/i],
+  ["yandex", /\byabrowser\b/i],
+  ["uc", /\bucbrowser\b/i],
+  ["miui", /\bmiuibrowser\b/i],
+  ["firefox", /\b(?:firefox|fxios)\//i],
+  ["chrome", /\b(?:chrome|crios|chromium)\//i],
+  ["safari", /\bversion\/[\d.]+.*\bsafari\//i],
+];
+
+function parseUserAgent(uaRaw: string): ClientInfo {
+  let os: OsFamily = "other";
+  let osVersion = "";
+  for (const [family, re] of OS_SIGNATURES) {
+    const res = uaRaw.match(re);
+    if (res) {
+      os = family;
+      osVersion = (res[1] || "").replace(/_/g, ".");
+      break;
+    }
+  }
+
+  const inAppMatch = IN_APP_SIGNATURES.find(([, re]) => re.test(uaRaw));
+  if (inAppMatch) {
+    return { os, osVersion, browser: inAppMatch[0], inApp: true };
+  }
+  // Android marks embedded WebViews with "; wv)", iOS ones lack the "Safari/" token.
+  const genericWebView =
+    (os === "android" && /;\s*wv\)/i.test(uaRaw)) ||
+    (os === "ios" && /applewebkit/i.test(uaRaw) && !/\bsafari\//i.test(uaRaw));
+  if (genericWebView) {
+    return { os, osVersion, browser: "webview", inApp: true };
+  }
+  const browserMatch = BROWSER_SIGNATURES.find(([, re]) => re.test(uaRaw));
+  return { os, osVersion, browser: browserMatch ? browserMatch[0] : "other", inApp: false };
+}
+
+function compareVersions(a: string, b: string): number {
+  const left = a.split(".").map((part) => parseInt(part, 10) || 0);
+  const right = b.split(".").map((part) => parseInt(part, 10) || 0);
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    const diff = (left[i] ?? 0) - (right[i] ?? 0);
+    if (diff !== 0) return diff < 0 ? -1 : 1;
+  }
+  return 0;
+}
+
+function osMatches(condition: OsFamily | OsCondition, client: ClientInfo): boolean {
+  const spec = typeof condition === "string" ? { family: condition } : condition;
+  if (spec.family !== client.os) return false;
+  if (!spec.minVersion && !spec.maxVersion) return true;
+  if (!client.osVersion) return false;
+  if (spec.minVersion && compareVersions(client.osVersion, spec.minVersion) < 0) return false;
+  if (spec.maxVersion && compareVersions(client.osVersion, spec.maxVersion) > 0) return false;
+  return true;
+}
+
+/** ----------------------------- Matching ----------------------------- */
+interface MatchCaptures {
+  query: Record<string, RegExpMatchArray>;
+  headers: Record<string, RegExpMatchArray>;
+  cookies: Record<string, RegExpMatchArray>;
+  referer: RegExpMatchArray | null;
+}
+
+interface MatchContext {
+  route: RouteRule;
+  pathMatch: RegExpMatchArray | null;
+  captures: MatchCaptures;
+  variant?: SelectedVariant;
+  /** Target template the request was sent to after failover; set by buildTargetUrl. */
+  target?: string;
+}
+
+interface SelectedVariant {
+  id: string;
+  index: number;
+  target: string;
+  query?: RedirectQuery;
+  extraQuery?: Record<string, string>;
+}
+
+function detectDevice(uaRaw: string, classifier: UaClassifier): Device {
+  if (!uaRaw) return "desktop";
+  if (classifier.tablet.some((re) => re.test(uaRaw))) {
+    return "tablet";
+  }
+  if (classifier.mobile.some((re) => re.test(uaRaw))) {
+    return "mobile";
+  }
+  return "desktop";
+}
+
+function isBotAgent(
+  uaRaw: string,
+  flags: FlagsConfig,
+  classifier: UaClassifier,
+  cfBot?: boolean,
+  asn?: number | null
+): boolean {
+  if (!uaRaw && cfBot) return true;
+  if (typeof asn === "number" && flags.botAsns?.includes(asn)) {
+    return true;
+  }
+  const ua = (uaRaw || "").toLowerCase();
+  const knownBots = [
+    ...(flags.strictBots ? flags.yandexBots : []),
+    ...(flags.strictBots ? flags.googleBots : []),
+  ].map((name) => name.toLowerCase());
+  if (knownBots.some((sig) => ua.includes(sig.toLowerCase()))) {
+    return true;
+  }
+  if (uaRaw && classifier.bot.some((re) => re.test(uaRaw))) {
+    return true;
+  }
+  return Boolean(cfBot);
+}
+
+const zoneFormatters = new Map<string, Intl.DateTimeFormat>();
+
+function zoneFormatter(timezone: string): Intl.DateTimeFormat {
+  let formatter = zoneFormatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone: timezone,
+      weekday: "short",
+      hour: "2-digit",
+      minute: "2-digit",
+      hourCycle: "h23",
+    });
+    zoneFormatters.set(timezone, formatter);
+  }
+  return formatter;
+}
+
+function isValidTimezone(timezone: string): boolean {
+  try {
+    zoneFormatter(timezone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function minutesOf(value: string): number {
+  const [h, m] = value.split(":").map((part) => parseInt(part, 10));
+  return h * 60 + m;
+}
+
+function scheduleState(match: MatchRule, now: number): ScheduleState {
+  const hasWindow = Boolean(match.activeFrom || match.activeUntil);
+  const hasDays = Boolean(match.days && match.days.length > 0);
+  const hasHours = Boolean(match.hours && match.hours.length > 0);
+  if (!hasWindow && !hasDays && !hasHours) return "always";
+  if (match.activeFrom && now < Date.parse(match.activeFrom)) return "pending";
+  if (match.activeUntil && now >= Date.parse(match.activeUntil)) return "expired";
+  if (!hasDays && !hasHours) return "active";
+
+  const parts = zoneFormatter(match.timezone || "UTC").formatToParts(new Date(now));
+  const part = (type: string) => parts.find((p) => p.type === type)?.value ?? "";
+  const weekday = part("weekday").toLowerCase().slice(0, 3) as Weekday;
+  const minutes = parseInt(part("hour"), 10) * 60 + parseInt(part("minute"), 10);
+  if (hasDays && !match.days!.includes(weekday)) return "off-hours";
+  if (
+    hasHours &&
+    !match.hours!.some((range) => minutes >= minutesOf(range.from) && minutes < minutesOf(range.to))
+  ) {
+    return "off-hours";
+  }
+  return "active";
+}
+
+interface RequestFacts {
+  host: string;
+  ip: string;
+  asn: number | null;
+  pathname: string;
+  searchParams: URLSearchParams;
+  headers: Headers;
+  country: string;
+  device: Device;
+  client: ClientInfo;
+  isBot: boolean;
+  now: number;
+  /** Set by the simulator so actions skip side effects such as storing clicks. */
+  dryRun?: boolean;
+  /** Params remembered by the persistence cookie, including this request's. */
+  touches?: ParamTouches;
+}
+
+type MatchFailure =
+  | "disabled"
+  | "host"
+  | "path"
+  | "country"
+  | "device"
+  | "bots"
+  | "schedule"
+  | "query"
+  | "headers"
+  | "cookies"
+  | "referer"
+  | "asn"
+  | "ip"
+  | "os"
+  | "browser"
+  | "inApp";
+
+const regexCache = new Map<string, RegExp | null>();
+
+function cachedRegex(pattern: string): RegExp | null {
+  if (!regexCache.has(pattern)) {
+    try {
+      regexCache.set(pattern, new RegExp(pattern));
+    } catch {
+      regexCache.set(pattern, null);
+    }
+  }
+  return regexCache.get(pattern) ?? null;
+}
+
+function hostMatches(pattern: string, host: string): boolean {
+  const p = pattern.toLowerCase();
+  if (p.startsWith("*.")) {
+    return host.endsWith(p.slice(1)) && host.length > p.length - 1;
+  }
+  return host === p;
+}
+
+/** Returns the capture array for a satisfied condition, `null` when it fails. */
+function testCondition(
+  condition: ValueCondition,
+  value: string | null
+): RegExpMatchArray | null {
+  if (condition.absent) {
+    return value === null ? ([""] as RegExpMatchArray) : null;
+  }
+  if (value === null) return null;
+  if (typeof condition.equals === "string") {
+    return value === condition.equals ? ([value] as RegExpMatchArray) : null;
+  }
+  if (typeof condition.regex === "string") {
+    const re = cachedRegex(condition.regex);
+    return re ? value.match(re) : null;
+  }
+  return [value] as RegExpMatchArray;
+}
+
+function testConditionMap(
+  conditions: Record<string, ValueCondition> | undefined,
+  lookup: (name: string) => string | null,
+  captures: Record<string, RegExpMatchArray>
+): boolean {
+  if (!conditions) return true;
+  for (const [name, condition] of Object.entries(conditions)) {
+    const res = testCondition(condition, lookup(name));
+    if (!res) return false;
+    captures[name] = res;
+  }
+  return true;
+}
+
+type MatchResult = { ctx: MatchContext; reason?: undefined } | { ctx: null; reason: MatchFailure };
+
+function evaluateRoute(rule: RouteRule, facts: RequestFacts): MatchResult {
+  if (rule.enabled === false) return { ctx: null, reason: "disabled" };
+  const { pathname, country, device, isBot } = facts;
+  const match = rule.match || {};
+  if (match.hosts && match.hosts.length > 0) {
+    const host = facts.host.toLowerCase();
+    if (!match.hosts.some((pattern) => hostMatches(pattern, host))) {
+      return { ctx: null, reason: "host" };
+    }
+  }
+  const paths = ensureArray(match.path);
+  let pathMatch: RegExpMatchArray | null = null;
+  if (paths && paths.length > 0) {
+    const ok = paths.some((pattern) => {
+      const re = cachedRegex(pattern);
+      const res = re ? pathname.match(re) : null;
+      if (res) {
+        pathMatch = res;
+        return true;
+      }
+      return false;
+    });
+    if (!ok) return { ctx: null, reason: "path" };
+  }
+
+  if (match.countries && match.countries.length > 0) {
+    if (!match.countries.includes(country)) return { ctx: null, reason: "country" };
+  }
+  if (match.devices && match.devices.length > 0 && !match.devices.includes("any")) {
+    if (!match.devices.includes(device)) return { ctx: null, reason: "device" };
+  }
+  if (typeof match.bots === "boolean") {
+    if (match.bots !== isBot) return { ctx: null, reason: "bots" };
+  }
+  const schedule = scheduleState(match, facts.now);
+  if (schedule !== "always" && schedule !== "active") {
+    return { ctx: null, reason: "schedule" };
+  }
+
+  const captures: MatchCaptures = { query: {}, headers: {}, cookies: {}, referer: null };
+  if (!testConditionMap(match.query, (name) => facts.searchParams.get(name), captures.query)) {
+    return { ctx: null, reason: "query" };
+  }
+  if (!testConditionMap(match.headers, (name) => facts.headers.get(name), captures.headers)) {
+    return { ctx: null, reason: "headers" };
+  }
+  const cookieLookup = (name: string) => readCookie(facts.headers, name);
+  if (!testConditionMap(match.cookies, cookieLookup, captures.cookies)) {
+    return { ctx: null, reason: "cookies" };
+  }
+  if (match.referer) {
+    captures.referer = testCondition(match.referer, facts.headers.get("referer"));
+    if (!captures.referer) return { ctx: null, reason: "referer" };
+  }
+  if (match.asns && match.asns.length > 0) {
+    if (facts.asn === null || !match.asns.includes(facts.asn)) {
+      return { ctx: null, reason: "asn" };
+    }
+  }
+  if (match.ipRanges && match.ipRanges.length > 0) {
+    const ip = parseIp(facts.ip);
+    if (!ip || !match.ipRanges.some((cidr) => ipInRange(ip, cidr))) {
+      return { ctx: null, reason: "ip" };
+    }
+  }
+  if (match.os && match.os.length > 0) {
+    if (!match.os.some((condition) => osMatches(condition, facts.client))) {
+      return { ctx: null, reason: "os" };
+    }
+  }
+  if (match.browsers && match.browsers.length > 0) {
+    if (!match.browsers.includes(facts.client.browser)) return { ctx: null, reason: "browser" };
+  }
+  if (typeof match.inApp === "boolean" && match.inApp !== facts.client.inApp) {
+    return { ctx: null, reason: "inApp" };
+  }
+
+  return { ctx: { route: rule, pathMatch, captures } };
+}
+
+function matchRoute(rule: RouteRule, facts: RequestFacts): MatchContext | null {
+  return evaluateRoute(rule, facts).ctx;
+}
+
+/** ----------------------------- Templating ----------------------------- */
+/** `{name}` or `{name|default}` inside redirect targets and `extraQuery` values. */
+const PLACEHOLDER_RE = /\{([^{}|]*)(?:\|([^{}]*))?\}/g;
+const TEMPLATE_VARIABLES = ["country", "device", "host", "rule.id", "uuid", "timestamp"];
+
+function isKnownPlaceholder(name: string): boolean {
+  return (
+    TEMPLATE_VARIABLES.includes(name) || /^path\.\d+$/.test(name) || /^query\..+$/.test(name)
+  );
+}
+
+function templateValue(name: string, context: MatchContext, facts: RequestFacts): string | null {
+  switch (name) {
+    case "country":
+      return facts.country;
+    case "device":
+      return facts.device;
+    case "host":
+      return facts.host;
+    case "rule.id":
+      return context.route.id;
+    case "uuid":
+      return crypto.randomUUID();
+    case "timestamp":
+      return String(Math.floor(facts.now / 1000));
+  }
+  if (name.startsWith("path.")) {
+    // pathname is already percent-encoded; decode so the value is encoded exactly once.
+    const raw = context.pathMatch?.[Number(name.slice(5))] ?? null;
+    try {
+      return raw === null ? null : decodeURIComponent(raw);
+    } catch {
+      return raw;
+    }
+  }
+  if (name.startsWith("query.")) return facts.searchParams.get(name.slice(6));
+  return null;
+}
+
+/** Substitutes placeholders; missing values fall back to the default or an empty string. */
+function renderTemplate(
+  template: string,
+  context: MatchContext,
+  facts: RequestFacts,
+  encode: (value: string) => string = encodeURIComponent
+): string {
+  if (!template.includes("{")) return template;
+  return template.replace(PLACEHOLDER_RE, (_match, name: string, fallback?: string) => {
+    const value = templateValue(name.trim(), context, facts);
+    return encode(value ? value : fallback ?? "");
+  });
+}
+
+/** ----------------------------- Action execution ----------------------------- */
+function variantId(entry: RedirectTarget, index: number): string {
+  return entry.id || String(index);
+}
+
+function pickWeightedIndex(targets: RedirectTarget[], random = Math.random()): number {
+  const weights = targets.map((entry) => Math.max(entry.weight ?? 1, 0));
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  if (total <= 0) return 0;
+  let point = random * total;
+  for (let i = 0; i < weights.length; i++) {
+    if (weights[i] <= 0) continue;
+    if (point < weights[i]) return i;
+    point -= weights[i];
+  }
+  return weights.length - 1;
+}
+
+function variantAt(action: TargetedAction, index: number): SelectedVariant {
+  if (!action.targets || action.targets.length === 0) {
+    return {
+      id: "0",
+      index: 0,
+      target: action.target ?? "",
+      query: action.query,
+      extraQuery: action.extraQuery,
+    };
+  }
+  const entry = action.targets[index];
+  return {
+    id: variantId(entry, index),
+    index,
+    target: entry.target,
+    query: entry.query ? { ...action.query, ...entry.query } : action.query,
+    extraQuery: entry.extraQuery
+      ? { ...action.extraQuery, ...entry.extraQuery }
+      : action.extraQuery,
+  };
+}
+
+function selectVariant(action: TargetedAction, health: TargetHealthMap = {}): SelectedVariant {
+  if (!action.targets || action.targets.length === 0) {
+    return variantAt(action, 0);
+  }
+  // Split only between healthy entries; if every origin is down, keep the configured split.
+  const healthy = action.targets.map((entry) =>
+    isTargetDown(entry.target, health) ? { ...entry, weight: 0 } : entry
+  );
+  const targets = healthy.some((entry) => (entry.weight ?? 1) > 0) ? healthy : action.targets;
+  return variantAt(action, pickWeightedIndex(targets));
+}
+
+/** First of `primary` and `fallbacks` whose origin is not marked down (or `primary`). */
+function failoverTarget(
+  primary: string,
+  fallbacks: string[] | undefined,
+  health: TargetHealthMap
+): string {
+  if (!isTargetDown(primary, health)) return primary;
+  return fallbacks?.find((target) => !isTargetDown(target, health)) ?? primary;
+}
+
+function findVariant(action: TargetedAction, id: string): SelectedVariant | null {
+  if (!action.targets || action.targets.length === 0) {
+    return id === "0" ? variantAt(action, 0) : null;
+  }
+  const index = action.targets.findIndex((entry, i) => variantId(entry, i) === id);
+  return index === -1 ? null : variantAt(action, index);
+}
+
+function captureGroup(
+  captures: Record<string, RegExpMatchArray>,
+  ref: CaptureRef
+): string | null {
+  return captures[ref.name]?.[ref.group ?? 0] || null;
+}
+
+/** Resolves an object query value; `null` means the parameter is skipped. */
+function resolveQueryValue(value: RedirectQueryValue, context: MatchContext): string | null {
+  const { captures } = context;
+  if ("fromPathGroup" in value) {
+    return context.pathMatch?.[value.fromPathGroup ?? 0] || null;
+  }
+  if (value.fromQueryGroup) return captureGroup(captures.query, value.fromQueryGroup);
+  if (value.fromHeaderGroup) return captureGroup(captures.headers, value.fromHeaderGroup);
+  if (value.fromCookieGroup) return captureGroup(captures.cookies, value.fromCookieGroup);
+  if ("fromRefererGroup" in value) {
+    return captures.referer?.[value.fromRefererGroup ?? 0] || null;
+  }
+  if ("literal" in value) {
+    return String(value.literal ?? "");
+  }
+  return null;
+}
+
+function parseRenderedUrl(value: string): URL | null {
+  try {
+    const url = new URL(value);
+    // URL() accepts empty labels such as `https://.example.com/`, which no request can reach.
+    return url.hostname.startsWith(".") || url.hostname.includes("..") ? null : url;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Visitor values can still break the URL (a space in a `{query.sub}` host, say): then every
+ * placeholder takes its default, and `null` means even that is not a valid URL.
+ */
+function renderTargetUrl(
+  template: string,
+  context: MatchContext,
+  facts: RequestFacts
+): URL | null {
+  const rendered = parseRenderedUrl(renderTemplate(template, context, facts));
+  if (rendered || !template.includes("{")) return rendered;
+  const defaults = template.replace(PLACEHOLDER_RE, (_match, _name, fallback?: string) =>
+    encodeURIComponent(fallback ?? "")
+  );
+  return parseRenderedUrl(defaults);
+}
+
+/**
+ * Picks the variant and applies query, placeholder and append options to its target.
+ * Returns `null` when the placeholders cannot form a valid URL for this request.
+ */
+function buildTargetUrl(
+  action: TargetedAction,
+  context: MatchContext,
+  request: Request,
+  facts: RequestFacts,
+  health: TargetHealthMap = {}
+): URL | null {
+  let variant = context.variant ?? selectVariant(action, health);
+  if (context.variant && isTargetDown(variant.target, health)) {
+    // A pinned origin that is down gives way to a healthy variant, as for a fresh visitor.
+    const fresh = selectVariant(action, health);
+    if (!isTargetDown(fresh.target, health)) variant = fresh;
+  }
+  context.variant = variant;
+  const template = failoverTarget(variant.target, action.fallbacks, health);
+  context.target = template;
+  const target = renderTargetUrl(template, context, facts);
+  if (!target) return null;
+  const requestUrl = new URL(request.url);
+  const { query, extraQuery } = variant;
+
+  if (action.preserveOriginalQuery) {
+    requestUrl.searchParams.forEach((value, key) => {
+      target.searchParams.set(key, value);
+    });
+  }
+
+  if (action.persistedParams && facts.touches) {
+    const { map, touch } = action.persistedParams;
+    const stored = touch === "last" ? facts.touches.last : facts.touches.first;
+    for (const [name, value] of Object.entries(stored)) {
+      const rename = map ? map[name] : name;
+      if (rename) target.searchParams.set(rename, value);
+    }
+  }
+
+  if (extraQuery) {
+    for (const [key, value] of Object.entries(extraQuery)) {
+      // searchParams.set() encodes, so placeholders are substituted raw here.
+      target.searchParams.set(key, renderTemplate(value, context, facts, (raw) => raw));
+    }
+  }
+
+  if (query) {
+    Object.entries(query).forEach(([key, value]) => {
+      if (typeof value === "object" && value !== null) {
+        const resolved = resolveQueryValue(value, context);
+        if (resolved !== null) {
+          target.searchParams.set(key, resolved);
+        }
+      } else {
+        target.searchParams.set(key, String(value));
+      }
+    });
+  }
+
+  if (action.appendCountry) {
+    target.searchParams.set("country", facts.country);
+  }
+  if (action.appendDevice) {
+    target.searchParams.set("device", facts.device);
+  }
+  if (action.appendOs) {
+    target.searchParams.set("os", facts.client.os);
+  }
+  if (action.appendBrowser) {
+    target.searchParams.set("browser", facts.client.browser);
+  }
+  if (action.appendInApp) {
+    target.searchParams.set("inapp", facts.client.inApp ? "1" : "0");
+  }
+  if (action.appendVariant && action.targets) {
+    target.searchParams.set("variant", variant.id);
+  }
+  return target;
+}
+
+async function applyRedirect(
+  action: RedirectAction,
+  context: MatchContext,
+  request: Request,
+  facts: RequestFacts,
+  env: Env,
+  ctx: ExecutionContext
+): Promise<Response | null> {
+  const health = await healthForAction(env, action);
+  const url = buildTargetUrl(action, context, request, facts, health);
+  if (!url) return null;
+  if (action.clickIdParam) {
+    const clickId = crypto.randomUUID();
+    url.searchParams.set(action.clickIdParam, clickId);
+    // The click is stored after the redirect is sent; a postback can only follow much later.
+    if (!facts.dryRun) ctx.waitUntil(saveClick(env, clickId, context, url, facts));
+  }
+  const target = url.toString();
+  const mode = action.mode ?? "http";
+  if (mode === "http") {
+    return Response.redirect(target, action.status ?? 302);
+  }
+  if (mode === "js") {
+    return redirectPage(target, true);
+  }
+  const secret = stickySecret(env);
+  if (mode === "meta" || !secret) {
+    // Without a signing key the hop cannot be verified, so fall back to a single refresh.
+    return redirectPage(target, false);
+  }
+  const token = await signValue(secret, "hop", { u: target, e: Date.now() + REDIRECT_HOP_TTL_MS });
+  const hop = new URL(REDIRECT_HOP_PATH, request.url);
+  hop.searchParams.set("t", token);
+  return redirectPage(hop.toString(), false);
+}
+
+/** Minimal HTML page that navigates to `target` without sending a `Referer`. */
+function redirectPage(target: string, useScript: boolean): Response {
+  const href = escapeHtml(target);
+  const nonce = crypto.randomUUID().replace(/-/g, "");
+  const navigate = useScript
+    ? `<script nonce="${nonce}">location.replace(${escapeJsString(target)});</script>` +
+      `<noscript><meta http-equiv="refresh" content="0;url=${href}"></noscript>`
+    : `<meta http-equiv="refresh" content="0;url=${href}">`;
+  const body =
+    `<!doctype html><html><head><meta charset="utf-8">` +
+    `<meta name="referrer" content="no-referrer">${navigate}<title>Redirecting…</title></head>` +
+    `<body><a href="${href}" rel="noreferrer">Continue</a></body></html>`;
+  const headers = new Headers();
+  headers.set("Content-Type", "text/html; charset=utf-8");
+  headers.set("Cache-Control", "no-store");
+  headers.set("X-Frame-Options", "DENY");
+  headers.set("Referrer-Policy", "no-referrer");
+  headers.set(
+    "Content-Security-Policy",
+    useScript ? `default-src 'none'; script-src 'nonce-${nonce}'` : "default-src 'none'"
+  );
+  return new Response(body, { status: 200, headers });
+}
+
+/** Second leg of a `double-meta` redirect, served from our own host. */
+async function handleRedirectHop(request: Request, env: Env): Promise<Response> {
+  const secret = stickySecret(env);
+  const token = new URL(request.url).searchParams.get("t");
+  const data = secret ? await verifyValue(secret, "hop", token) : null;
+  if (
+    !isPlainObject(data) ||
+    typeof data.u !== "string" ||
+    typeof data.e !== "number" ||
+    data.e <= Date.now()
+  ) {
+    return new Response("Link expired", {
+      status: 410,
+      headers: { "Content-Type": "text/plain; charset=utf-8", "Cache-Control": "no-store" },
+    });
+  }
+  return redirectPage(data.u, false);
+}
+
+function applyHeaderRules(headers: Headers, rules: HeaderRules | undefined): void {
+  rules?.remove?.forEach((name) => headers.delete(name));
+  Object.entries(rules?.set ?? {}).forEach(([name, value]) => headers.set(name, value));
+}
+
+function dropHopByHop(headers: Headers): void {
+  const listed = (headers.get("connection") ?? "")
+    .split(",")
+    .map((name) => name.trim().toLowerCase())
+    .filter(Boolean);
+  [...HOP_BY_HOP_HEADERS, ...listed].forEach((name) => headers.delete(name));
+}
+
+/** Removes the named cookies from a `Cookie` header value. */
+function withoutCookies(header: string, names: string[]): string {
+  return header
+    .split(";")
+    .map((part) => part.trim())
+    .filter((part) => part && !names.includes(part.split("=")[0].trim()))
+    .join("; ");
+}
+
+/** Drops `Domain=` so upstream cookies become host-only cookies on the visitor-facing host. */
+function rewriteSetCookie(cookie: string): string {
+  return cookie
+    .split(";")
+    .filter((part) => !/^\s*domain\s*=/i.test(part))
+    .join(";");
+}
+
+/**
+ * `value` moved from origin `from` to `to`, or `null` when it is on another origin. The origin
+ * must end there, so `https://partner.com` does not claim `https://partner.com.evil.io/`.
+ */
+function rebaseOrigin(value: string, from: string, to: string): string | null {
+  if (!value.startsWith(from)) return null;
+  const rest = value.slice(from.length);
+  return rest === "" || /^[/?#]/.test(rest) ? to + rest : null;
+}
+
+class LinkRewriter {
+  constructor(
+    private readonly from: string,
+    private readonly to: string,
+    private readonly attribute: string
+  ) {}
+
+  element(element: Element): void {
+    const value = element.getAttribute(this.attribute);
+    const rebased = value ? rebaseOrigin(value, this.from, this.to) : null;
+    if (rebased !== null) element.setAttribute(this.attribute, rebased);
+  }
+}
+
+const LINK_ATTRIBUTES: Array<[string, string]> = [
+  ["a[href]", "href"],
+  ["link[href]", "href"],
+  ["form[action]", "action"],
+  ["img[src]", "src"],
+  ["script[src]", "src"],
+  ["iframe[src]", "src"],
+  ["source[src]", "src"],
+];
+
+/** Fetches the upstream URL built like a redirect target and streams the response back. */
+async function applyProxy(
+  action: ProxyAction,
+  context: MatchContext,
+  request: Request,
+  facts: RequestFacts,
+  env: Env
+): Promise<Response | null> {
+  const health = await healthForAction(env, action);
+  const upstream = buildTargetUrl(action, context, request, facts, health);
+  if (!upstream) return null;
+  const incoming = new URL(request.url);
+  const headers = new Headers(request.headers);
+  dropHopByHop(headers);
+  headers.delete("host");
+  const cookie = headers.get("cookie");
+  if (cookie) {
+    // Never leak the admin session, sticky assignment or remembered params to a third party.
+    const flags = cachedConfig?.flags ?? DEFAULT_FLAGS;
+    const stickyName = flags.stickyCookieName || DEFAULT_FLAGS.stickyCookieName!;
+    const rest = withoutCookies(cookie, [SESSION_COOKIE, stickyName, persistCookieName(flags)]);
+    if (rest) headers.set("cookie", rest);
+    else headers.delete("cookie");
+  }
+  headers.set("x-forwarded-host", incoming.host);
+  headers.set("x-forwarded-proto", incoming.protocol.replace(":", ""));
+  if (facts.ip) headers.set("x-forwarded-for", facts.ip);
+  applyHeaderRules(headers, action.requestHeaders);
+
+  // Workers ignore a Host header set by hand: request the hostHeader name and let
+  // resolveOverride connect to the target host instead.
+  const fetchUrl = new URL(upstream.toString());
+  if (action.hostHeader) fetchUrl.hostname = action.hostHeader;
+  const hasBody = request.method !== "GET" && request.method !== "HEAD";
+
+  let upstreamResponse: Response;
+  try {
+    upstreamResponse = await fetch(fetchUrl.toString(), {
+      method: request.method,
+      headers,
+      body: hasBody ? request.body : undefined,
+      cf: action.hostHeader ? { resolveOverride: upstream.hostname } : undefined,
+      redirect: "manual",
+      signal: AbortSignal.timeout(
+        Math.min(action.timeoutMs ?? PROXY_TIMEOUT_MS, PROXY_TIMEOUT_MAX_MS)
+      ),
+    });
+  } catch (error) {
+    const timedOut = error instanceof Error && error.name === "TimeoutError";
+    return new Response(timedOut ? "Upstream timed out" : "Upstream unavailable", {
+      status: timedOut ? 504 : 502,
+      headers: { "Content-Type": "text/plain; charset=utf-8" },
+    });
+  }
+
+  const responseHeaders = new Headers(upstreamResponse.headers);
+  dropHopByHop(responseHeaders);
+  responseHeaders.delete("set-cookie");
+  upstreamResponse.headers
+    .getSetCookie()
+    .forEach((value) => responseHeaders.append("set-cookie", rewriteSetCookie(value)));
+  const location = responseHeaders.get("location");
+  const rebased = location ? rebaseOrigin(location, upstream.origin, incoming.origin) : null;
+  if (action.rewriteLinks && rebased !== null) {
+    responseHeaders.set("location", rebased);
+  }
+  applyHeaderRules(responseHeaders, action.responseHeaders);
+
+  const response = new Response(upstreamResponse.body, {
+    status: upstreamResponse.status,
+    statusText: upstreamResponse.statusText,
+    headers: responseHeaders,
+  });
+  const isHtml = (responseHeaders.get("content-type") ?? "").includes("text/html");
+  if (!action.rewriteLinks || !isHtml || typeof HTMLRewriter === "undefined") return response;
+  const rewriter = new HTMLRewriter();
+  for (const [selector, attribute] of LINK_ATTRIBUTES) {
+    rewriter.on(selector, new LinkRewriter(upstream.origin, incoming.origin, attribute));
+  }
+  return rewriter.transform(response);
+}
+
+function applyResponse(action: ResponseAction): Response {
+  const status = action.status ?? 200;
+  const headers = copyHeaders(action.headers);
+  if (!headers.has("Content-Type")) {
+    headers.set(
+      "Content-Type",
+      action.bodyHtml ? "text/html; charset=utf-8" : "text/plain; charset=utf-8"
+    );
+  }
+  const body = action.bodyHtml ?? action.bodyText ?? "";
+  return new Response(body, { status, headers });
+}
+
+/** `null` when the rule's target cannot be built for this request; try the next rule. */
+async function executeRoute(
+  context: MatchContext,
+  request: Request,
+  facts: RequestFacts,
+  env: Env,
+  ctx: ExecutionContext
+): Promise<Response | null> {
+  const action = context.route.action;
+  if (!action) {
+    return new Response(null, { status: 204 });
+  }
+  if (action.type === "redirect") {
+    return applyRedirect(action, context, request, facts, env, ctx);
+  }
+  if (action.type === "proxy") {
+    return applyProxy(action, context, request, facts, env);
+  }
+  if (action.type === "response") {
+    return applyResponse(action);
+  }
+  return new Response(null, { status: 500, statusText: "Unknown action" });
+}
+
+/** ----------------------------- Validation ----------------------------- */
+type ReportIssue = (path: string, message: string, severity?: IssueSeverity) => void;
+
+/**
+ * Throws a 400 carrying every issue when `routes` has at least one error. `rebase` rewrites
+ * issue pointers, e.g. to point into a PATCH body instead of the list.
+ */
+function validateRoutesPayload(
+  routes: unknown,
+  rebase?: (path: string) => string
+): asserts routes is RouteRule[] {
+  const issues = collectRouteIssues(routes).map((issue) =>
+    rebase ? { ...issue, path: rebase(issue.path) } : issue
+  );
+  const errors = issues.filter((issue) => issue.severity === "error");
+  if (errors.length) {
+    const summary = errors
+      .slice(0, 3)
+      .map((issue) => `${issue.path}: ${issue.message}`)
+      .join("; ");
+    const more = errors.length > 3 ? ` (+${errors.length - 3} more)` : "";
+    throw Object.assign(new Error(`Invalid routes: ${summary}${more}`), { status: 400, issues });
+  }
+}
+
+/** Checks routes against the schema and returns every problem found, in document order. */
+function collectRouteIssues(routes: unknown): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  if (!Array.isArray(routes)) {
+    issues.push({ path: "/routes", severity: "error", message: "routes must be an array" });
+    return issues;
+  }
+  const seen = new Map<string, number>();
+  routes.forEach((rule, idx) => {
+    const base = `/routes/${idx}`;
+    const ruleId =
+      rule && typeof rule === "object" && typeof rule.id === "string" ? rule.id : undefined;
+    const report: ReportIssue = (path, message, severity = "error") => {
+      issues.push({ path, severity, message, ...(ruleId ? { ruleId } : {}) });
+    };
+    if (!isPlainObject(rule)) {
+      report(base, "rule must be an object");
+      return;
+    }
+    checkKnownKeys(rule, RULE_KEYS, base, report);
+    if (typeof rule.id !== "string" || rule.id.trim() === "") {
+      report(`${base}/id`, "id is required");
+    } else if (seen.has(rule.id)) {
+      report(`${base}/id`, `duplicate id, already used by /routes/${seen.get(rule.id)}`);
+    } else {
+      seen.set(rule.id, idx);
+    }
+    for (const key of ["enabled", "sticky"] as const) {
+      if (typeof rule[key] !== "undefined" && typeof rule[key] !== "boolean") {
+        report(`${base}/${key}`, `${key} must be a boolean`);
+      }
+    }
+    validateRateLimit(rule.rateLimit, `${base}/rateLimit`, report);
+    if (!isPlainObject(rule.match)) {
+      report(`${base}/match`, "match is required and must be an object");
+    } else {
+      const match = rule.match as MatchRule;
+      checkKnownKeys(match, MATCH_KEYS, `${base}/match`, report);
+      validateAudience(match, `${base}/match`, report);
+      validateSchedule(match, `${base}/match`, report);
+      validateConditions(match, `${base}/match`, report);
+      validateNetworks(match, `${base}/match`, report);
+      validateClientConditions(match, `${base}/match`, report);
+    }
+    if (!isPlainObject(rule.action)) {
+      report(`${base}/action`, "action is required and must be an object");
+    } else if (rule.action.type === "redirect") {
+      validateRedirectAction(rule.action as unknown as RedirectAction, `${base}/action`, report);
+    } else if (rule.action.type === "proxy") {
+      validateProxyAction(rule.action as unknown as ProxyAction, `${base}/action`, report);
+    } else if (rule.action.type === "response") {
+      validateResponseAction(rule.action as unknown as ResponseAction, `${base}/action`, report);
+    } else {
+      report(`${base}/action/type`, `type must be one of ${ACTION_TYPES.join(", ")}`);
+    }
+  });
+  return issues;
+}
+
+function checkKnownKeys(
+  value: object,
+  known: readonly string[],
+  path: string,
+  report: ReportIssue
+): void {
+  for (const key of Object.keys(value)) {
+    if (!known.includes(key)) {
+      report(`${path}/${pointerSegment(key)}`, `unknown field "${key}" is ignored`, "warning");
+    }
+  }
+}
+
+function checkRegex(pattern: unknown, path: string, report: ReportIssue): void {
+  if (typeof pattern !== "string") {
+    report(path, "must be a string");
+    return;
+  }
+  try {
+    new RegExp(pattern);
+  } catch (error) {
+    report(path, `not a valid regex: ${(error as Error).message}`);
+  }
+}
+
+function checkStringMap(value: unknown, path: string, report: ReportIssue): void {
+  if (typeof value === "undefined") return;
+  if (!isPlainObject(value)) {
+    report(path, "must be an object of strings");
+    return;
+  }
+  for (const [key, item] of Object.entries(value)) {
+    if (typeof item !== "string") {
+      report(`${path}/${pointerSegment(key)}`, "must be a string");
+    }
+  }
+}
+
+function checkBoolean(value: unknown, path: string, report: ReportIssue): void {
+  if (typeof value !== "undefined" && typeof value !== "boolean") {
+    report(path, "must be a boolean");
+  }
+}
+
+/** Accepts ISO 3166-1 alpha-2 codes plus Cloudflare's `XX` (unknown) and `T1` (Tor). */
+function countryIssue(code: unknown): string | null {
+  if (typeof code !== "string") return "must be a string";
+  if (/^[a-z]{2}$/.test(code)) return `must be uppercase ("${code.toUpperCase()}")`;
+  if (!/^[A-Z]{2}$/.test(code)) return "must be a two-letter ISO 3166-1 code";
+  if (COUNTRY_ALIASES[code]) return `is not ISO 3166-1, use "${COUNTRY_ALIASES[code]}"`;
+  if (code === "XX" || code === "T1" || !regionNames) return null;
+  try {
+    return regionNames.of(code) !== code ? null : "is not a known ISO 3166-1 code";
+  } catch {
+    return "is not a known ISO 3166-1 code";
+  }
+}
+
+function validateAudience(match: MatchRule, path: string, report: ReportIssue): void {
+  if (typeof match.countries !== "undefined") {
+    if (!Array.isArray(match.countries)) {
+      report(`${path}/countries`, "countries must be an array");
+    } else {
+      match.countries.forEach((code, cIdx) => {
+        const problem = countryIssue(code);
+        if (problem) report(`${path}/countries/${cIdx}`, `country ${problem}`);
+      });
+    }
+  }
+  if (typeof match.devices !== "undefined") {
+    if (!Array.isArray(match.devices)) {
+      report(`${path}/devices`, "devices must be an array");
+    } else {
+      match.devices.forEach((device, dIdx) => {
+        if (!DEVICES.includes(device)) {
+          report(`${path}/devices/${dIdx}`, `device must be one of ${DEVICES.join(", ")}`);
+        }
+      });
+    }
+  }
+  checkBoolean(match.bots, `${path}/bots`, report);
+}
+
+function validateCondition(condition: unknown, path: string, report: ReportIssue): void {
+  if (!isPlainObject(condition)) {
+    report(path, "condition must be an object");
+    return;
+  }
+  const c = condition as ValueCondition;
+  const ops = (["equals", "regex", "present", "absent"] as const).filter(
+    (op) => typeof c[op] !== "undefined"
+  );
+  if (ops.length !== 1) {
+    report(path, "must set exactly one of equals, regex, present, absent");
+  }
+  if (typeof c.equals !== "undefined" && typeof c.equals !== "string") {
+    report(`${path}/equals`, "equals must be a string");
+  }
+  if (typeof c.regex !== "undefined") {
+    checkRegex(c.regex, `${path}/regex`, report);
+  }
+  if (typeof c.present !== "undefined" && c.present !== true) {
+    report(`${path}/present`, "present must be true");
+  }
+  if (typeof c.absent !== "undefined" && c.absent !== true) {
+    report(`${path}/absent`, "absent must be true");
+  }
+}
+
+function validateNetworks(match: MatchRule, path: string, report: ReportIssue): void {
+  if (typeof match.asns !== "undefined") {
+    if (
+      !Array.isArray(match.asns) ||
+      match.asns.some((asn) => !Number.isInteger(asn) || asn <= 0)
+    ) {
+      report(`${path}/asns`, "asns must be an array of positive integers");
+    }
+  }
+  if (typeof match.ipRanges !== "undefined") {
+    if (!Array.isArray(match.ipRanges)) {
+      report(`${path}/ipRanges`, "ipRanges must be an array");
+      return;
+    }
+    match.ipRanges.forEach((cidr, cIdx) => {
+      if (typeof cidr !== "string" || !parseCidr(cidr)) {
+        report(`${path}/ipRanges/${cIdx}`, "not a valid IP or CIDR");
+      }
+    });
+  }
+}
+
+function validateClientConditions(match: MatchRule, path: string, report: ReportIssue): void {
+  if (typeof match.os !== "undefined") {
+    if (!Array.isArray(match.os)) {
+      report(`${path}/os`, "os must be an array");
+    } else {
+      match.os.forEach((condition, oIdx) => {
+        const spec = typeof condition === "string" ? { family: condition } : condition;
+        if (!spec || !OS_FAMILIES.includes(spec.family)) {
+          report(`${path}/os/${oIdx}`, `os must use one of ${OS_FAMILIES.join(", ")}`);
+          return;
+        }
+        for (const key of ["minVersion", "maxVersion"] as const) {
+          const value = (spec as OsCondition)[key];
+          if (
+            typeof value !== "undefined" &&
+            (typeof value !== "string" || !VERSION_RE.test(value))
+          ) {
+            report(`${path}/os/${oIdx}/${key}`, `${key} must look like 12 or 16.4`);
+          }
+        }
+      });
+    }
+  }
+  if (typeof match.browsers !== "undefined") {
+    if (
+      !Array.isArray(match.browsers) ||
+      match.browsers.some((browser) => !BROWSER_FAMILIES.includes(browser))
+    ) {
+      report(`${path}/browsers`, `browsers must contain only ${BROWSER_FAMILIES.join(", ")}`);
+    }
+  }
+  checkBoolean(match.inApp, `${path}/inApp`, report);
+}
+
+function validateConditions(match: MatchRule, path: string, report: ReportIssue): void {
+  if (typeof match.hosts !== "undefined") {
+    if (!Array.isArray(match.hosts)) {
+      report(`${path}/hosts`, "hosts must be an array");
+    } else {
+      match.hosts.forEach((host, hIdx) => {
+        if (typeof host !== "string" || !HOST_RE.test(host.toLowerCase())) {
+          report(`${path}/hosts/${hIdx}`, "must be a hostname or *.domain wildcard");
+        }
+      });
+    }
+  }
+  if (Array.isArray(match.path)) {
+    match.path.forEach((pattern, pIdx) => checkRegex(pattern, `${path}/path/${pIdx}`, report));
+  } else if (typeof match.path !== "undefined") {
+    checkRegex(match.path, `${path}/path`, report);
+  }
+  const groups: Array<"query" | "headers" | "cookies"> = ["query", "headers", "cookies"];
+  for (const key of groups) {
+    const conditions = match[key];
+    if (typeof conditions === "undefined") continue;
+    if (!isPlainObject(conditions)) {
+      report(`${path}/${key}`, `${key} must be an object`);
+      continue;
+    }
+    Object.entries(conditions).forEach(([name, condition]) => {
+      validateCondition(condition, `${path}/${key}/${pointerSegment(name)}`, report);
+    });
+  }
+  if (typeof match.referer !== "undefined") {
+    validateCondition(match.referer, `${path}/referer`, report);
+  }
+}
+
+function validateSchedule(match: MatchRule, path: string, report: ReportIssue): void {
+  const bounds: Array<"activeFrom" | "activeUntil"> = ["activeFrom", "activeUntil"];
+  for (const key of bounds) {
+    const value = match[key];
+    if (typeof value === "undefined") continue;
+    if (typeof value !== "string" || Number.isNaN(Date.parse(value))) {
+      report(`${path}/${key}`, `${key} must be an ISO date`);
+    }
+  }
+  if (
+    typeof match.activeFrom === "string" &&
+    typeof match.activeUntil === "string" &&
+    Date.parse(match.activeFrom) >= Date.parse(match.activeUntil)
+  ) {
+    report(`${path}/activeFrom`, "activeFrom must be before activeUntil");
+  }
+  if (typeof match.days !== "undefined") {
+    if (!Array.isArray(match.days) || match.days.some((day) => !WEEKDAYS.includes(day))) {
+      report(`${path}/days`, `days must contain only ${WEEKDAYS.join(", ")}`);
+    }
+  }
+  if (typeof match.hours !== "undefined") {
+    if (!Array.isArray(match.hours)) {
+      report(`${path}/hours`, "hours must be an array");
+    } else {
+      match.hours.forEach((range, hIdx) => {
+        if (
+          !range ||
+          typeof range.from !== "string" ||
+          typeof range.to !== "string" ||
+          !HOUR_RE.test(range.from) ||
+          !HOUR_RE.test(range.to)
+        ) {
+          report(`${path}/hours/${hIdx}`, "hours must use HH:MM values");
+        } else if (minutesOf(range.from) >= minutesOf(range.to)) {
+          report(`${path}/hours/${hIdx}/from`, "from must be before to");
+        }
+      });
+    }
+  }
+  if (typeof match.timezone !== "undefined") {
+    if (typeof match.timezone !== "string" || !isValidTimezone(match.timezone)) {
+      report(`${path}/timezone`, "timezone is not a known IANA timezone");
+    }
+  }
+}
+
+function checkTemplate(value: string, path: string, report: ReportIssue): void {
+  for (const [, name] of value.matchAll(PLACEHOLDER_RE)) {
+    if (!isKnownPlaceholder(name.trim())) {
+      report(path, `unknown placeholder {${name}}`);
+    }
+  }
+}
+
+function checkTemplateMap(value: unknown, path: string, report: ReportIssue): void {
+  checkStringMap(value, path, report);
+  if (!isPlainObject(value)) return;
+  for (const [key, item] of Object.entries(value)) {
+    if (typeof item === "string") checkTemplate(item, `${path}/${pointerSegment(key)}`, report);
+  }
+}
+
+function checkTargetUrl(value: unknown, path: string, report: ReportIssue): void {
+  if (typeof value !== "string" || value === "") {
+    report(path, "target is required");
+    return;
+  }
+  checkTemplate(value, path, report);
+  try {
+    const url = new URL(value.replace(PLACEHOLDER_RE, "x"));
+    if (url.protocol !== "https:" && url.protocol !== "http:") {
+      report(path, "target must use http or https");
+    }
+  } catch {
+    report(path, "target must be an absolute URL");
+  }
+}
+
+function checkCaptureRef(value: unknown, path: string, report: ReportIssue): void {
+  if (!isPlainObject(value) || typeof value.name !== "string" || value.name === "") {
+    report(path, "must be { name, group? }");
+    return;
+  }
+  if (
+    typeof value.group !== "undefined" &&
+    (!Number.isInteger(value.group) || (value.group as number) < 0)
+  ) {
+    report(`${path}/group`, "group must be a non-negative integer");
+  }
+}
+
+function validateRedirectQuery(query: unknown, path: string, report: ReportIssue): void {
+  if (typeof query === "undefined") return;
+  if (!isPlainObject(query)) {
+    report(path, "query must be an object");
+    return;
+  }
+  for (const [key, value] of Object.entries(query)) {
+    const itemPath = `${path}/${pointerSegment(key)}`;
+    if (["string", "number", "boolean"].includes(typeof value)) continue;
+    if (!isPlainObject(value)) {
+      report(itemPath, "query value must be a string, number, boolean or object");
+      continue;
+    }
+    const sources = Object.keys(value).filter((name) => QUERY_SOURCES.includes(name));
+    if (sources.length !== 1) {
+      report(itemPath, `must set exactly one of ${QUERY_SOURCES.join(", ")}`);
+      continue;
+    }
+    const source = sources[0];
+    const ref = value[source];
+    if (source === "fromPathGroup" || source === "fromRefererGroup") {
+      if (!Number.isInteger(ref) || (ref as number) < 0) {
+        report(`${itemPath}/${source}`, `${source} must be a non-negative integer`);
+      }
+    } else if (source === "literal") {
+      if (typeof ref !== "string") report(`${itemPath}/literal`, "literal must be a string");
+    } else {
+      checkCaptureRef(ref, `${itemPath}/${source}`, report);
+    }
+  }
+}
+
+function validateRedirectAction(action: RedirectAction, path: string, report: ReportIssue): void {
+  checkKnownKeys(action, REDIRECT_KEYS, path, report);
+  if (typeof action.status !== "undefined" && !REDIRECT_STATUSES.includes(action.status)) {
+    report(`${path}/status`, `status must be one of ${REDIRECT_STATUSES.join(", ")}`);
+  }
+  if (
+    typeof action.clickIdParam !== "undefined" &&
+    (typeof action.clickIdParam !== "string" || !QUERY_PARAM_RE.test(action.clickIdParam))
+  ) {
+    report(`${path}/clickIdParam`, "clickIdParam must be a query parameter name");
+  }
+  if (typeof action.mode !== "undefined" && !REDIRECT_MODES.includes(action.mode)) {
+    report(`${path}/mode`, `mode must be one of ${REDIRECT_MODES.join(", ")}`);
+  } else if (action.mode && action.mode !== "http" && typeof action.status !== "undefined") {
+    report(`${path}/status`, `status is ignored when mode is "${action.mode}"`, "warning");
+  }
+  validateTargets(action, path, report);
+}
+
+function checkHeaderRules(value: unknown, path: string, report: ReportIssue): void {
+  if (typeof value === "undefined") return;
+  if (!isPlainObject(value)) {
+    report(path, "must be an object with set and/or remove");
+    return;
+  }
+  checkKnownKeys(value, ["set", "remove"], path, report);
+  checkStringMap(value.set, `${path}/set`, report);
+  if (
+    typeof value.remove !== "undefined" &&
+    (!Array.isArray(value.remove) || value.remove.some((name) => typeof name !== "string"))
+  ) {
+    report(`${path}/remove`, "remove must be an array of header names");
+  }
+}
+
+function validateProxyAction(action: ProxyAction, path: string, report: ReportIssue): void {
+  checkKnownKeys(action, PROXY_KEYS, path, report);
+  checkHeaderRules(action.requestHeaders, `${path}/requestHeaders`, report);
+  checkHeaderRules(action.responseHeaders, `${path}/responseHeaders`, report);
+  if (
+    typeof action.hostHeader !== "undefined" &&
+    (typeof action.hostHeader !== "string" ||
+      action.hostHeader.startsWith("*") ||
+      !HOST_RE.test(action.hostHeader.toLowerCase()))
+  ) {
+    report(`${path}/hostHeader`, "hostHeader must be a hostname");
+  }
+  if (
+    typeof action.timeoutMs !== "undefined" &&
+    (typeof action.timeoutMs !== "number" ||
+      action.timeoutMs <= 0 ||
+      action.timeoutMs > PROXY_TIMEOUT_MAX_MS)
+  ) {
+    report(`${path}/timeoutMs`, `timeoutMs must be between 1 and ${PROXY_TIMEOUT_MAX_MS}`);
+  }
+  checkBoolean(action.rewriteLinks, `${path}/rewriteLinks`, report);
+  validateTargets(action, path, report);
+}
+
+function validatePersistedParams(value: unknown, path: string, report: ReportIssue): void {
+  if (typeof value === "undefined") return;
+  if (!isPlainObject(value)) {
+    report(path, "persistedParams must be an object");
+    return;
+  }
+  checkKnownKeys(value, ["map", "touch"], path, report);
+  const mapping = value as PersistedParamsMapping;
+  if (typeof mapping.map !== "undefined") {
+    if (!isPlainObject(mapping.map)) {
+      report(`${path}/map`, "map must be an object of stored param → target param");
+    } else {
+      for (const [name, rename] of Object.entries(mapping.map)) {
+        if (typeof rename !== "string" || !QUERY_PARAM_RE.test(rename)) {
+          report(`${path}/map/${pointerSegment(name)}`, "must be a query parameter name");
+        }
+      }
+    }
+  }
+  if (typeof mapping.touch !== "undefined" && !TOUCH_MODELS.includes(mapping.touch)) {
+    report(`${path}/touch`, `touch must be one of ${TOUCH_MODELS.join(", ")}`);
+  }
+}
+
+/** Target URL(s), query mapping and append flags shared by redirect and proxy actions. */
+function validateTargets(action: TargetedAction, path: string, report: ReportIssue): void {
+  validatePersistedParams(action.persistedParams, `${path}/persistedParams`, report);
+  validateRedirectQuery(action.query, `${path}/query`, report);
+  checkTemplateMap(action.extraQuery, `${path}/extraQuery`, report);
+  for (const key of REDIRECT_BOOLEAN_KEYS) {
+    checkBoolean(action[key], `${path}/${key}`, report);
+  }
+  if (typeof action.fallbacks !== "undefined") {
+    if (!Array.isArray(action.fallbacks)) {
+      report(`${path}/fallbacks`, "fallbacks must be an array of target URLs");
+    } else {
+      action.fallbacks.forEach((target, fIdx) => {
+        checkTargetUrl(target, `${path}/fallbacks/${fIdx}`, report);
+      });
+      const primaries = Array.isArray(action.targets)
+        ? action.targets.map((entry) => entry?.target)
+        : [action.target];
+      if (primaries.some((target) => typeof target === "string" && !targetOrigin(target))) {
+        report(
+          `${path}/fallbacks`,
+          "targets with a placeholder host are not health-checked, so fallbacks never apply",
+          "warning"
+        );
+      }
+    }
+  }
+  if (typeof action.targets === "undefined") {
+    checkTargetUrl(action.target, `${path}/target`, report);
+    return;
+  }
+  if (typeof action.target !== "undefined") {
+    report(`${path}/target`, "target is ignored when targets is set", "warning");
+  }
+  if (!Array.isArray(action.targets) || action.targets.length === 0) {
+    report(`${path}/targets`, "targets must be a non-empty array");
+    return;
+  }
+  let total = 0;
+  const ids = new Set<string>();
+  action.targets.forEach((entry, tIdx) => {
+    const entryPath = `${path}/targets/${tIdx}`;
+    if (!isPlainObject(entry)) {
+      report(entryPath, "target entry must be an object");
+      return;
+    }
+    checkKnownKeys(entry, TARGET_KEYS, entryPath, report);
+    checkTargetUrl(entry.target, `${entryPath}/target`, report);
+    if (typeof entry.id !== "undefined") {
+      if (typeof entry.id !== "string" || entry.id === "") {
+        report(`${entryPath}/id`, "id must be a non-empty string");
+      } else if (ids.has(entry.id)) {
+        report(`${entryPath}/id`, "duplicate target id");
+      } else {
+        ids.add(entry.id);
+      }
+    }
+    const weight = entry.weight ?? 1;
+    if (typeof weight !== "number" || !Number.isFinite(weight) || weight < 0) {
+      report(`${entryPath}/weight`, "weight must be a non-negative number");
+    } else {
+      total += weight;
+    }
+    validateRedirectQuery(entry.query, `${entryPath}/query`, report);
+    checkTemplateMap(entry.extraQuery, `${entryPath}/extraQuery`, report);
+  });
+  if (total <= 0) {
+    report(`${path}/targets`, "targets must have at least one positive weight");
+  }
+}
+
+function validateRateLimit(value: unknown, path: string, report: ReportIssue): void {
+  if (typeof value === "undefined") return;
+  if (!isPlainObject(value)) {
+    report(path, "rateLimit must be an object");
+    return;
+  }
+  checkKnownKeys(value, RATE_LIMIT_FIELDS, path, report);
+  const limit = value as unknown as RateLimit;
+  if (!Number.isInteger(limit.requests) || limit.requests < 1) {
+    report(`${path}/requests`, "requests must be a positive integer");
+  }
+  if (
+    !Number.isInteger(limit.windowSec) ||
+    limit.windowSec < 1 ||
+    limit.windowSec > RATE_LIMIT_WINDOW_MAX_SEC
+  ) {
+    report(
+      `${path}/windowSec`,
+      `windowSec must be an integer between 1 and ${RATE_LIMIT_WINDOW_MAX_SEC}`
+    );
+  }
+  if (typeof limit.key !== "undefined" && !RATE_LIMIT_KEYS.includes(limit.key)) {
+    report(`${path}/key`, `key must be one of ${RATE_LIMIT_KEYS.join(", ")}`);
+  }
+  if (typeof limit.onLimit !== "undefined" && !RATE_LIMIT_EXCEEDED.includes(limit.onLimit)) {
+    report(`${path}/onLimit`, `onLimit must be one of ${RATE_LIMIT_EXCEEDED.join(", ")}`);
+  }
+  if (limit.onLimit === "response" && !isPlainObject(limit.response)) {
+    report(`${path}/response`, 'response is required when onLimit is "response"');
+  } else if (typeof limit.response !== "undefined") {
+    if (limit.onLimit !== "response") {
+      report(`${path}/response`, 'response is ignored unless onLimit is "response"', "warning");
+    }
+    if (isPlainObject(limit.response)) {
+      const response = { type: "response" as const, ...limit.response };
+      validateResponseAction(response, `${path}/response`, report);
+    } else {
+      report(`${path}/response`, "response must be an object");
+    }
+  }
+}
+
+function validateResponseAction(action: ResponseAction, path: string, report: ReportIssue): void {
+  checkKnownKeys(action, RESPONSE_KEYS, path, report);
+  if (
+    typeof action.status !== "undefined" &&
+    (!Number.isInteger(action.status) || action.status < 200 || action.status > 599)
+  ) {
+    report(`${path}/status`, "status must be an integer between 200 and 599");
+  }
+  checkStringMap(action.headers, `${path}/headers`, report);
+  for (const key of ["bodyHtml", "bodyText"] as const) {
+    if (typeof action[key] !== "undefined" && typeof action[key] !== "string") {
+      report(`${path}/${key}`, `${key} must be a string`);
+    }
+  }
+  if (typeof action.bodyHtml === "string" && typeof action.bodyText === "string") {
+    report(`${path}/bodyText`, "bodyText is ignored when bodyHtml is set", "warning");
+  }
+}
+
+/** A 400 with one issue at `pointer`, a JSON pointer into the body such as `/flags/botAsns`. */
+function invalidFlag(pointer: string, message: string): never {
+  throw Object.assign(new Error(`Invalid flags: ${message}`), {
+    status: 400,
+    issues: [{ path: pointer, severity: "error", message }],
+  });
+}
+
+function assertWebhookUrl(value: unknown, label: string, pointer: string): void {
+  let url: URL | null = null;
+  try {
+    url = typeof value === "string" ? new URL(value) : null;
+  } catch {
+    url = null;
+  }
+  if (!url || (url.protocol !== "https:" && url.protocol !== "http:")) {
+    invalidFlag(pointer, `${label} must be an http(s) URL`);
+  }
+}
+
+function validateFlagsPayload(flags: unknown): asserts flags is FlagsConfig {
+  if (!flags || typeof flags !== "object") {
+    invalidFlag("/flags", "flags must be an object");
+  }
+  if (
+    "uiReadOnlyBanner" in (flags as Record<string, unknown>) &&
+    (flags as Record<string, unknown>).uiReadOnlyBanner !== undefined &&
+    typeof (flags as Record<string, unknown>).uiReadOnlyBanner !== "string"
+  ) {
+    invalidFlag("/flags/uiReadOnlyBanner", "flags.uiReadOnlyBanner must be a string");
+  }
+  const record = flags as Record<string, unknown>;
+  if (
+    typeof record.botAsns !== "undefined" &&
+    (!Array.isArray(record.botAsns) ||
+      record.botAsns.some((asn) => !Number.isInteger(asn) || (asn as number) <= 0))
+  ) {
+    invalidFlag("/flags/botAsns", "flags.botAsns must be an array of positive integers");
+  }
+  const patternKeys = [
+    "tabletUserAgentPatterns",
+    "mobileUserAgentPatterns",
+    "botUserAgentPatterns",
+  ] as const;
+  for (const key of patternKeys) {
+    const patterns = record[key];
+    if (typeof patterns === "undefined") continue;
+    if (!Array.isArray(patterns)) {
+      invalidFlag(`/flags/${key}`, `flags.${key} must be an array of regex strings`);
+    }
+    patterns.forEach((pattern, pIdx) => {
+      if (typeof pattern !== "string") {
+        invalidFlag(`/flags/${key}/${pIdx}`, `flags.${key}[${pIdx}] must be a string`);
+      }
+      try {
+        new RegExp(pattern, "i");
+      } catch (error) {
+        invalidFlag(
+          `/flags/${key}/${pIdx}`,
+          `flags.${key}[${pIdx}] is not a valid regex: ${(error as Error).message}`
+        );
+      }
+    });
+  }
+  if (
+    typeof record.stickyCookieName !== "undefined" &&
+    (typeof record.stickyCookieName !== "string" ||
+      !/^[A-Za-z0-9_-]+$/.test(record.stickyCookieName))
+  ) {
+    invalidFlag(
+      "/flags/stickyCookieName",
+      "flags.stickyCookieName must contain only letters, digits, '_' or '-'"
+    );
+  }
+  if (
+    typeof record.stickyTtlSec !== "undefined" &&
+    (typeof record.stickyTtlSec !== "number" ||
+      !Number.isFinite(record.stickyTtlSec) ||
+      record.stickyTtlSec <= 0)
+  ) {
+    invalidFlag("/flags/stickyTtlSec", "flags.stickyTtlSec must be a positive number");
+  }
+  if (
+    typeof record.versionRetention !== "undefined" &&
+    (!Number.isInteger(record.versionRetention) || (record.versionRetention as number) < 1)
+  ) {
+    invalidFlag("/flags/versionRetention", "flags.versionRetention must be a positive integer");
+  }
+  if (typeof record.webhookUrl !== "undefined" && record.webhookUrl !== "") {
+    assertWebhookUrl(record.webhookUrl, "flags.webhookUrl", "/flags/webhookUrl");
+  }
+  if (typeof record.webhooks !== "undefined") {
+    if (!Array.isArray(record.webhooks)) {
+      invalidFlag("/flags/webhooks", "flags.webhooks must be an array");
+    }
+    record.webhooks.forEach((hook: unknown, idx: number) => {
+      const path = `flags.webhooks[${idx}]`;
+      const pointer = `/flags/webhooks/${idx}`;
+      if (!hook || typeof hook !== "object") {
+        invalidFlag(pointer, `${path} must be an object`);
+      }
+      const item = hook as Record<string, unknown>;
+      assertWebhookUrl(item.url, `${path}.url`, `${pointer}/url`);
+      if (
+        typeof item.format !== "undefined" &&
+        !WEBHOOK_FORMATS.includes(item.format as WebhookFormat)
+      ) {
+        invalidFlag(
+          `${pointer}/format`,
+          `${path}.format must be one of ${WEBHOOK_FORMATS.join(", ")}`
+        );
+      }
+      if (item.format === "telegram" && (typeof item.chatId !== "string" || !item.chatId)) {
+        invalidFlag(`${pointer}/chatId`, `${path}.chatId is required for the telegram format`);
+      }
+      if (
+        typeof item.events !== "undefined" &&
+        (!Array.isArray(item.events) || item.events.some((e) => typeof e !== "string"))
+      ) {
+        invalidFlag(`${pointer}/events`, `${path}.events must be an array of action names`);
+      }
+    });
+  }
+  if (typeof record.sessionLogin !== "undefined" && typeof record.sessionLogin !== "boolean") {
+    invalidFlag("/flags/sessionLogin", "flags.sessionLogin must be a boolean");
+  }
+  if (
+    typeof record.sessionTtlSec !== "undefined" &&
+    (typeof record.sessionTtlSec !== "number" ||
+      !Number.isFinite(record.sessionTtlSec) ||
+      record.sessionTtlSec < 60)
+  ) {
+    invalidFlag(
+      "/flags/sessionTtlSec",
+      "flags.sessionTtlSec must be a number of seconds (at least 60)"
+    );
+  }
+  if (typeof record.persistParams !== "undefined") {
+    if (
+      !Array.isArray(record.persistParams) ||
+      record.persistParams.some(
+        (name: unknown) => typeof name !== "string" || !PERSIST_PATTERN_RE.test(name)
+      )
+    ) {
+      invalidFlag(
+        "/flags/persistParams",
+        "flags.persistParams must be an array of param names, optionally ending in '*'"
+      );
+    }
+  }
+  if (
+    typeof record.persistCookieName !== "undefined" &&
+    (typeof record.persistCookieName !== "string" ||
+      !/^[A-Za-z0-9_-]+$/.test(record.persistCookieName))
+  ) {
+    invalidFlag(
+      "/flags/persistCookieName",
+      "flags.persistCookieName must contain only letters, digits, '_' or '-'"
+    );
+  }
+  if (
+    typeof record.persistTtlSec !== "undefined" &&
+    (typeof record.persistTtlSec !== "number" ||
+      !Number.isFinite(record.persistTtlSec) ||
+      record.persistTtlSec <= 0)
+  ) {
+    invalidFlag("/flags/persistTtlSec", "flags.persistTtlSec must be a positive number");
+  }
+  if (
+    typeof record.clickTtlSec !== "undefined" &&
+    (!Number.isInteger(record.clickTtlSec) || (record.clickTtlSec as number) < 60)
+  ) {
+    invalidFlag(
+      "/flags/clickTtlSec",
+      "flags.clickTtlSec must be a whole number of seconds (at least 60)"
+    );
+  }
+}
+
+/** ----------------------------- Rule analysis ----------------------------- */
+const CATCH_ALL_PATHS = ["", "^", "/", "^/", ".*", "^.*", "^/.*", ".+", "^/.*$", "^.*$"];
+const LIST_KEYS = [
+  "hosts",
+  "countries",
+  "devices",
+  "days",
+  "hours",
+  "asns",
+  "ipRanges",
+  "os",
+  "browsers",
+] as const;
+const SCHEDULE_KEYS = ["activeFrom", "activeUntil", "days", "hours", "timezone"] as const;
+
+function isUnconstrained(value: unknown): boolean {
+  return typeof value === "undefined" || (Array.isArray(value) && value.length === 0);
+}
+
+/** `^/promo` style patterns: an anchored literal with no other regex syntax. */
+function literalPrefix(pattern: string): string | null {
+  if (!pattern.startsWith("^")) return null;
+  let prefix = "";
+  for (let i = 1; i < pattern.length; i++) {
+    const ch = pattern[i];
+    if (ch === "\\") {
+      const next = pattern[i + 1];
+      if (!next || /[A-Za-z0-9]/.test(next)) return prefix;
+      prefix += next;
+      i++;
+    } else if (/[.*+?()[\]{}|$^]/.test(ch)) {
+      return prefix;
+    } else {
+      prefix += ch;
+    }
+  }
+  return prefix;
+}
+
+/** True when every path matched by `inner` is matched by `outer` (conservative). */
+function pathCovers(outer: string, inner: string): boolean {
+  if (outer === inner || CATCH_ALL_PATHS.includes(outer)) return true;
+  const outerPrefix = literalPrefix(outer);
+  if (outerPrefix === null || `^${outerPrefix}` !== outer.replace(/\\(.)/g, "$1")) return false;
+  const innerPrefix = literalPrefix(inner);
+  return innerPrefix !== null && !inner.includes("|") && innerPrefix.startsWith(outerPrefix);
+}
+
+function subsetOf<T>(inner: T[] | undefined, outer: T[] | undefined): boolean {
+  if (isUnconstrained(outer)) return true;
+  if (isUnconstrained(inner)) return false;
+  return inner!.every((item) => outer!.some((candidate) => sameJson(candidate, item)));
+}
+
+function conditionsCover(
+  outer: Record<string, ValueCondition> | undefined,
+  inner: Record<string, ValueCondition> | undefined
+): boolean {
+  return Object.entries(outer ?? {}).every(([name, condition]) =>
+    sameJson(condition, inner?.[name])
+  );
+}
+
+/** Whether every request matched by `inner` is also matched by `outer`. */
+function matchCovers(outer: MatchRule, inner: MatchRule): boolean {
+  if (!isUnconstrained(outer.hosts)) {
+    if (isUnconstrained(inner.hosts)) return false;
+    const covered = inner.hosts!.every((host) =>
+      outer.hosts!.some(
+        (pattern) =>
+          pattern.toLowerCase() === host.toLowerCase() ||
+          (!host.startsWith("*.") && hostMatches(pattern, host.toLowerCase()))
+      )
+    );
+    if (!covered) return false;
+  }
+  const outerPaths = ensureArray(outer.path) ?? [];
+  if (outerPaths.length > 0) {
+    const innerPaths = ensureArray(inner.path) ?? [];
+    if (innerPaths.length === 0 && !outerPaths.some((p) => CATCH_ALL_PATHS.includes(p))) {
+      return false;
+    }
+    if (!innerPaths.every((p) => outerPaths.some((o) => pathCovers(o, p)))) return false;
+  }
+  if (!subsetOf(inner.countries, outer.countries)) return false;
+  if (!outer.devices?.includes("any") && !subsetOf(inner.devices, outer.devices)) return false;
+  if (typeof outer.bots === "boolean" && outer.bots !== inner.bots) return false;
+  const outerScheduled = SCHEDULE_KEYS.some((key) => !isUnconstrained(outer[key]));
+  if (outerScheduled && SCHEDULE_KEYS.some((key) => !sameJson(outer[key], inner[key]))) {
+    return false;
+  }
+  if (!conditionsCover(outer.query, inner.query)) return false;
+  if (!conditionsCover(outer.headers, inner.headers)) return false;
+  if (!conditionsCover(outer.cookies, inner.cookies)) return false;
+  if (outer.referer && !sameJson(outer.referer, inner.referer)) return false;
+  if (!subsetOf(inner.asns, outer.asns)) return false;
+  if (!subsetOf(inner.ipRanges, outer.ipRanges)) return false;
+  if (!subsetOf(inner.os, outer.os)) return false;
+  if (!subsetOf(inner.browsers, outer.browsers)) return false;
+  if (typeof outer.inApp === "boolean" && outer.inApp !== inner.inApp) return false;
+  return true;
+}
+
+function captureGroupCount(pattern: string): number | null {
+  try {
+    return (new RegExp(`${pattern}|`).exec("") as RegExpExecArray).length - 1;
+  } catch {
+    return null;
+  }
+}
+
+interface PathGroupRef {
+  path: string;
+  label: string;
+  group: number;
+}
+
+/** `fromPathGroup` values in `query` plus `{path.N}` placeholders in `target` / `extraQuery`. */
+function pathGroupRefs(
+  variant: { query?: RedirectQuery; target?: string; extraQuery?: Record<string, string> },
+  path: string
+): PathGroupRef[] {
+  const refs: PathGroupRef[] = [];
+  for (const [key, value] of Object.entries(variant.query ?? {})) {
+    if (value && typeof value === "object" && typeof value.fromPathGroup === "number") {
+      refs.push({
+        path: `${path}/query/${pointerSegment(key)}/fromPathGroup`,
+        label: `fromPathGroup ${value.fromPathGroup}`,
+        group: value.fromPathGroup,
+      });
+    }
+  }
+  const templates: Array<[string, string | undefined]> = [
+    [`${path}/target`, variant.target],
+    ...Object.entries(variant.extraQuery ?? {}).map(
+      ([key, value]): [string, string] => [`${path}/extraQuery/${pointerSegment(key)}`, value]
+    ),
+  ];
+  for (const [pointer, template] of templates) {
+    for (const [, name] of template?.matchAll(PLACEHOLDER_RE) ?? []) {
+      const m = /^path\.(\d+)$/.exec(name.trim());
+      if (m) refs.push({ path: pointer, label: `{${name.trim()}}`, group: Number(m[1]) });
+    }
+  }
+  return refs;
+}
+
+function checkPathGroups(rule: RouteRule, refs: PathGroupRef[], report: ReportIssue): void {
+  const paths = ensureArray(rule.match.path) ?? [];
+  for (const ref of refs) {
+    if (paths.length === 0) {
+      report(ref.path, `${ref.label} is always empty because match.path is not set`);
+      continue;
+    }
+    for (let pIdx = 0; pIdx < paths.length; pIdx++) {
+      const count = captureGroupCount(paths[pIdx]);
+      if (count !== null && ref.group > count) {
+        report(
+          ref.path,
+          `${ref.label} exceeds the ${count} capture group(s) in match.path[${pIdx}]`
+        );
+        break;
+      }
+    }
+  }
+}
+
+/**
+ * `bots: false` next to `asns` that are all in `flags.botAsns`: requests from those networks are
+ * always bots. Devices are not checked, since any user agent counts as a bot through the ASN
+ * list, `cf.bot` or `flags.botUserAgentPatterns`.
+ */
+function botAsnConflict(match: MatchRule, flags: FlagsConfig): string | null {
+  const botAsns = flags.botAsns ?? [];
+  if (
+    match.bots === false &&
+    match.asns?.length &&
+    match.asns.every((asn) => botAsns.includes(asn))
+  ) {
+    return "bots: false with asns that are all in flags.botAsns: those requests are always bots";
+  }
+  return null;
+}
+
+/**
+ * Static checks over schema-valid routes: rules fully shadowed by an earlier rule (first
+ * match wins), rules that can never match, and path capture references that can't resolve.
+ */
+function analyzeRoutes(
+  routes: RouteRule[],
+  flags: FlagsConfig,
+  now = Date.now()
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  routes.forEach((rule, idx) => {
+    const base = `/routes/${idx}`;
+    const report: ReportIssue = (path, message, severity = "warning") => {
+      issues.push({ path, severity, message, ruleId: rule.id });
+    };
+    const match = rule.match;
+    for (const key of LIST_KEYS) {
+      if (Array.isArray(match[key]) && match[key]!.length === 0) {
+        report(
+          `${base}/match/${key}`,
+          `empty ${key} matches everything; remove it or list values`
+        );
+      }
+    }
+    if (scheduleState(match, now) === "expired") {
+      report(`${base}/match/activeUntil`, "schedule has ended, so the rule can never match");
+    }
+    match.os?.forEach((condition, oIdx) => {
+      if (
+        typeof condition === "object" &&
+        condition.minVersion &&
+        condition.maxVersion &&
+        compareVersions(condition.minVersion, condition.maxVersion) > 0
+      ) {
+        report(`${base}/match/os/${oIdx}`, "minVersion is above maxVersion, so it never matches");
+      }
+    });
+    const conflict = botAsnConflict(match, flags);
+    if (conflict) report(`${base}/match/bots`, `${conflict}, so the rule can never match`);
+    if (rule.enabled !== false) {
+      // A rule that steps aside once its rate limit is hit leaves traffic for later rules.
+      const shadowIdx = routes.findIndex(
+        (earlier, eIdx) =>
+          eIdx < idx &&
+          earlier.enabled !== false &&
+          earlier.rateLimit?.onLimit !== "skip" &&
+          matchCovers(earlier.match, match)
+      );
+      if (shadowIdx !== -1) {
+        const earlier = routes[shadowIdx];
+        report(
+          base,
+          `unreachable: "${earlier.id}" (/routes/${shadowIdx}) matches all of its traffic first`
+        );
+      }
+    }
+    if (rule.action.type === "redirect" || rule.action.type === "proxy") {
+      const action = rule.action;
+      checkPathGroups(rule, pathGroupRefs(action, `${base}/action`), report);
+      action.targets?.forEach((entry, tIdx) => {
+        checkPathGroups(rule, pathGroupRefs(entry, `${base}/action/targets/${tIdx}`), report);
+      });
+    }
+  });
+  return issues;
+}
+
+/** ----------------------------- Admin UI ----------------------------- */
+function adminHtml(
+  flags: FlagsConfig,
   tokenFromQuery?: string,
-  kvReady = true
+  kvReady = true,
+  csrfToken?: string
 ): string {
   const warning = tokenFromQuery
     ? `<div class="warning">Warning: token detected in the URL. It will be removed after load.</div>`
@@ -596,13 +3239,36 @@ function adminHtml(
       .diff.neutral { color: #ccc; }
       .log-error { color: #ff8a8a; margin-top: 0.25rem; white-space: pre-wrap; }
       .log-note { color: #8ab4f8; margin-top: 0.25rem; white-space: pre-wrap; }
+      .spark { width: 12rem; height: 1.5rem; flex: none; }
+      .spark polyline { fill: none; stroke: #4c7dff; stroke-width: 1.5; }
+      dialog { background: #1b1b1b; color: #f5f5f5; border: 1px solid #333; border-radius: 0.75rem; max-width: 32rem; }
+      dialog::backdrop { background: rgba(0, 0, 0, 0.6); }
+      .log-item button { padding: 0.3rem 0.8rem; font-size: 0.85rem; }
       .help { margin: 0.5rem 0 0; color: #bbb; line-height: 1.5; font-size: 0.9rem; }
+      input[type=text] { padding: 0.5rem; border-radius: 0.5rem; border: 1px solid #333; background: #151515; color: #eee; font-family: inherit; }
+      .field { display: flex; flex-direction: column; gap: 0.25rem; font-size: 0.9rem; color: #bbb; }
+      .field.wide { flex: 1 1 320px; }
+      .check { display: flex; align-items: center; gap: 0.4rem; font-size: 0.9rem; color: #bbb; }
+      textarea.invalid { border-color: #5f1f1f; }
+      .issues { list-style: none; margin: 0.75rem 0 0; padding: 0; display: grid; gap: 0.35rem; font-size: 0.9rem; }
+      .issues li { cursor: pointer; padding: 0.4rem 0.6rem; border-radius: 0.4rem; background: #151515; }
+      .issues li.error { color: #ff8a8a; }
+      .issues li.warning { color: #ffb347; }
     </style>
   </head>
   <body>
     <header>
       <h1>${flags.uiTitle}</h1>
-      <div id="meta"></div>
+      <div class="row">
+        <div id="meta"></div>
+        ${
+          csrfToken
+            ? `<form method="post" action="/admin/logout">` +
+              `<input type="hidden" name="csrf" value="${escapeHtml(csrfToken)}">` +
+              `<button type="submit">Log out</button></form>`
+            : ""
+        }
+      </div>
     </header>
     <main>
       <section>
@@ -624,23 +3290,92 @@ function adminHtml(
           for more examples.
         </p>
         <textarea id="routes" ${flags.uiReadonly ? "readonly" : ""}></textarea>
+        <ul id="issues" class="issues" hidden></ul>
       </section>
       <section>
         <h2>Flags</h2>
         <textarea id="flags" ${flags.uiReadonly ? "readonly" : ""}></textarea>
       </section>
+      <section>
+        <h2>Test</h2>
+        <p class="help">
+          Simulate a visitor against the routes. Enable <b>Use draft</b> to test the
+          routes from the editor above without publishing them.
+        </p>
+        <div class="row">
+          <label class="field wide">URL<input type="text" id="sim-url" placeholder="https://example.com/casino/brand" /></label>
+          <label class="field wide">User-Agent<input type="text" id="sim-ua" /></label>
+          <label class="field">Country<input type="text" id="sim-country" placeholder="RU" size="4" /></label>
+        </div>
+        <div class="row" style="margin-top: 0.75rem">
+          <label class="check"><input type="checkbox" id="sim-bot" /> cf.bot</label>
+          <label class="check"><input type="checkbox" id="sim-draft" checked /> Use draft</label>
+          <button id="simulate">Run test</button>
+        </div>
+        <pre id="sim-result" hidden></pre>
+      </section>
+      <section>
+        <h2>Traffic</h2>
+        <p class="help">Hits per rule over the last 24 hours, hourly. <code>(origin)</code> counts requests no rule matched.</p>
+        <div id="stats"></div>
+      </section>
+      <section>
+        <h2>Target health</h2>
+        <p class="help">
+          Origins of redirect and proxy targets, probed by the scheduled health check.
+          Traffic skips origins that are down when a rule has <code>fallbacks</code> or
+          several <code>targets</code>.
+        </p>
+        <div id="health"></div>
+        <button id="health-check" ${flags.uiReadonly ? "disabled" : ""}>Check now</button>
+      </section>
+      <section>
+        <h2>Conversions</h2>
+        <p class="help">
+          Postbacks recorded against clicks from rules with <code>clickIdParam</code>,
+          totalled per rule.
+        </p>
+        <div id="conversions"></div>
+      </section>
+      <section>
+        <h2>Versions</h2>
+        <div id="versions"></div>
+      </section>
       <section>
         <h2>Audit log</h2>
+        <div class="row" style="margin-bottom: 0.75rem">
+          <input type="text" id="audit-actor" placeholder="actor" />
+          <input type="text" id="audit-action" placeholder="action prefix" />
+          <input type="text" id="audit-rule" placeholder="rule id" />
+          <button id="audit-filter">Filter</button>
+        </div>
         <div id="audit"></div>
+        <button id="audit-more" hidden>Load more</button>
       </section>
     </main>
+    <dialog id="conflict">
+      <h2>Configuration changed</h2>
+      <p class="help">
+        Someone published a newer configuration since you loaded this page. Reload to
+        discard your edits, or overwrite the newer version with your draft.
+      </p>
+      <pre id="conflict-info"></pre>
+      <div class="row">
+        <button id="conflict-cancel">Keep editing</button>
+        <button id="conflict-reload">Discard &amp; reload</button>
+        <button id="conflict-overwrite">Overwrite</button>
+      </div>
+    </dialog>
     <script>
       const queryToken = new URL(window.location.href).searchParams.get('token');
       if (queryToken) {
         history.replaceState(null, '', window.location.pathname);
       }
       const token = queryToken || '';
-      const headers = token ? { 'Authorization': 'Bearer ' + token } : {};
+      const csrfToken = ${JSON.stringify(csrfToken || "")};
+      const headers = token
+        ? { 'Authorization': 'Bearer ' + token }
+        : csrfToken ? { 'X-CSRF-Token': csrfToken } : {};
       const statusEl = document.getElementById('status');
       function clearStatus() {
         if (!statusEl) return;
@@ -654,9 +3389,64 @@ function adminHtml(
         statusEl.className = 'status ' + type;
         statusEl.hidden = false;
       }
-      function handleError(err) {
-        const message = err && err.message ? err.message : String(err);
-        setStatus('error', message);
+      function handleError(err) {
+        if (err && err.body && Array.isArray(err.body.issues)) {
+          renderIssues(err.body.issues);
+          setStatus('error', err.body.message || 'Validation failed');
+          return;
+        }
+        const message = err && err.message ? err.message : String(err);
+        setStatus('error', message);
+      }
+      function ruleRange(text, index) {
+        let depth = 0;
+        let inString = false;
+        let count = -1;
+        let start = -1;
+        for (let i = 0; i < text.length; i++) {
+          const ch = text[i];
+          if (inString) {
+            if (ch === '\\\\') i++;
+            else if (ch === '"') inString = false;
+            continue;
+          }
+          if (ch === '"') inString = true;
+          else if (ch === '{' || ch === '[') {
+            if (depth === 1 && ch === '{' && ++count === index) start = i;
+            depth++;
+          } else if (ch === '}' || ch === ']') {
+            depth--;
+            if (depth === 1 && start !== -1) return [start, i + 1];
+          }
+        }
+        return null;
+      }
+      function highlightRule(index) {
+        const el = document.getElementById('routes');
+        const range = ruleRange(el.value, index);
+        if (!range) return;
+        el.focus();
+        el.setSelectionRange(range[0], range[1]);
+        const line = el.value.slice(0, range[0]).split('\\n').length - 1;
+        el.scrollTop = Math.max(0, line * parseFloat(getComputedStyle(el).lineHeight || '18') - 20);
+      }
+      function renderIssues(issues) {
+        const list = document.getElementById('issues');
+        list.innerHTML = '';
+        (issues || []).forEach((issue) => {
+          const li = document.createElement('li');
+          li.className = issue.severity;
+          li.textContent = (issue.severity === 'error' ? '✘ ' : '⚠ ') + issue.path +
+            (issue.ruleId ? ' (' + issue.ruleId + ')' : '') + ': ' + issue.message;
+          const m = /^\\/routes\\/(\\d+)/.exec(issue.path);
+          if (m) li.addEventListener('click', () => highlightRule(Number(m[1])));
+          list.appendChild(li);
+        });
+        list.hidden = !list.children.length;
+        document.getElementById('routes').classList.toggle(
+          'invalid',
+          (issues || []).some((issue) => issue.severity === 'error')
+        );
       }
       function readJson(id, label) {
         const el = document.getElementById(id);
@@ -682,65 +3472,262 @@ function adminHtml(
             ...(options.headers || {})
           }
         });
+        if (res.status === 401 && csrfToken) {
+          window.location.reload();
+        }
         if (!res.ok) {
           const text = await res.text();
-          throw new Error(res.status + ' ' + res.statusText + '\n' + text);
+          const error = new Error(res.status + ' ' + res.statusText + '\\n' + text);
+          error.status = res.status;
+          try {
+            error.body = text ? JSON.parse(text) : null;
+          } catch {
+            error.body = null;
+          }
+          throw error;
         }
         if (res.status === 204) return null;
         const text = await res.text();
         return text ? JSON.parse(text) : null;
       }
-      async function loadAll() {
-        const metaEl = document.getElementById('meta');
-        const [routes, flags, audit] = await Promise.all([
-          api('/api/routes'),
-          api('/api/flags'),
-          api('/api/audit?limit=20')
-        ]);
-        document.getElementById('routes').value = JSON.stringify(routes.routes, null, 2);
-        document.getElementById('flags').value = JSON.stringify(flags.flags, null, 2);
-        metaEl.textContent = 'etag: ' + (routes.etag || 'n/a');
-        const auditEl = document.getElementById('audit');
-        auditEl.innerHTML = '';
-        (audit || []).forEach(item => {
+      function renderVersions(list) {
+        const versionsEl = document.getElementById('versions');
+        versionsEl.innerHTML = '';
+        list.forEach(item => {
           const div = document.createElement('div');
           div.className = 'log-item';
           const header = document.createElement('div');
           header.className = 'log-header';
           const summary = document.createElement('span');
-          summary.textContent = '[' + item.ts + '] ' + item.actor + ' — ' + item.action;
+          summary.textContent = '[' + item.createdAt + '] ' + item.actor + ' — ' + item.action +
+            ' (' + item.etag.slice(0, 19) + '…)' + (item.current ? ' · current' : '');
+          header.appendChild(summary);
+          const button = document.createElement('button');
+          button.textContent = 'Rollback';
+          button.disabled = item.current || ${flags.uiReadonly ? "true" : "false"};
+          button.addEventListener('click', () => {
+            if (!confirm('Roll back to ' + item.etag + '?')) return;
+            clearStatus();
+            api('/api/rollback/' + encodeURIComponent(item.etag), {
+              method: 'POST',
+              headers: { 'If-Match': currentEtag }
+            })
+              .then(() => loadAll().then(() => setStatus('success', 'Rolled back.')).catch(handleError))
+              .catch(handleError);
+          });
+          header.appendChild(button);
+          div.appendChild(header);
+          versionsEl.appendChild(div);
+        });
+      }
+      function renderHealth(list) {
+        const healthEl = document.getElementById('health');
+        healthEl.innerHTML = '';
+        if (!list.length) {
+          healthEl.textContent = 'No probes yet.';
+          return;
+        }
+        list.forEach((item) => {
+          const div = document.createElement('div');
+          div.className = 'log-item';
+          const header = document.createElement('div');
+          header.className = 'log-header';
+          const summary = document.createElement('span');
+          summary.textContent = item.origin + ' — ' + (item.error || 'HTTP ' + item.status) +
+            ' · checked ' + item.checkedAt + ' · since ' + item.changedAt;
+          header.appendChild(summary);
+          const state = document.createElement('span');
+          state.className = item.up ? 'diff positive' : 'diff negative';
+          state.textContent = item.up ? 'up' : 'down';
+          header.appendChild(state);
+          div.appendChild(header);
+          healthEl.appendChild(div);
+        });
+      }
+      function sparkline(points) {
+        const ns = 'http://www.w3.org/2000/svg';
+        const svg = document.createElementNS(ns, 'svg');
+        svg.setAttribute('class', 'spark');
+        svg.setAttribute('viewBox', '0 0 100 20');
+        svg.setAttribute('preserveAspectRatio', 'none');
+        const max = Math.max(1, ...points);
+        const step = points.length > 1 ? 100 / (points.length - 1) : 0;
+        const line = document.createElementNS(ns, 'polyline');
+        line.setAttribute('points', points
+          .map((value, idx) => (idx * step).toFixed(2) + ',' + (19 - (value / max) * 18).toFixed(2))
+          .join(' '));
+        svg.appendChild(line);
+        return svg;
+      }
+      function renderStats(stats) {
+        const statsEl = document.getElementById('stats');
+        statsEl.innerHTML = '';
+        if (!stats || !stats.series.length) {
+          statsEl.textContent = 'No hits recorded yet.';
+          return;
+        }
+        stats.series.forEach((item) => {
+          const div = document.createElement('div');
+          div.className = 'log-item';
+          const header = document.createElement('div');
+          header.className = 'log-header';
+          const summary = document.createElement('span');
+          summary.textContent = item.key + ' — ' + item.total + ' hit(s)';
+          header.appendChild(summary);
+          header.appendChild(sparkline(item.points));
+          div.appendChild(header);
+          statsEl.appendChild(div);
+        });
+      }
+      function renderConversions(list) {
+        const conversionsEl = document.getElementById('conversions');
+        conversionsEl.innerHTML = '';
+        if (!list.length) {
+          conversionsEl.textContent = 'No conversions yet.';
+          return;
+        }
+        list.forEach((item) => {
+          const div = document.createElement('div');
+          div.className = 'log-item';
+          const header = document.createElement('div');
+          header.className = 'log-header';
+          const summary = document.createElement('span');
+          summary.textContent = item.ruleId + ' — ' + item.conversions + ' conversion(s) · payout ' +
+            item.payout.toFixed(2) + ' · last ' + item.lastAt;
           header.appendChild(summary);
-          if (typeof item.diffBytes === 'number' && !Number.isNaN(item.diffBytes)) {
-            const diff = document.createElement('span');
-            let cls = 'diff neutral';
-            let sign = '±';
-            if (item.diffBytes > 0) {
-              cls = 'diff positive';
-              sign = '+';
-            } else if (item.diffBytes < 0) {
-              cls = 'diff negative';
-              sign = '-';
-            }
-            diff.className = cls;
-            diff.textContent = sign + Math.abs(item.diffBytes) + ' B';
-            header.appendChild(diff);
-          }
           div.appendChild(header);
-          if (item.error) {
-            const errorEl = document.createElement('div');
-            errorEl.className = 'log-error';
-            errorEl.textContent = item.error;
-            div.appendChild(errorEl);
+          const details = document.createElement('div');
+          details.className = 'log-note';
+          const statuses = Object.entries(item.statuses)
+            .map(([name, value]) => name + ' ' + value.count + ' (' + value.payout.toFixed(2) + ')');
+          const top = (counts) => Object.entries(counts)
+            .sort((a, b) => b[1] - a[1])
+            .slice(0, 5)
+            .map(([name, count]) => name + ' ' + count)
+            .join(', ');
+          details.textContent = statuses.join(', ') + ' · countries: ' + top(item.countries) +
+            ' · devices: ' + top(item.devices);
+          div.appendChild(details);
+          conversionsEl.appendChild(div);
+        });
+      }
+      let auditCursor = null;
+      let currentEtag = '';
+      function describeDiff(diff) {
+        const lines = [];
+        if (diff.rulesAdded.length) lines.push('+ added: ' + diff.rulesAdded.join(', '));
+        if (diff.rulesRemoved.length) lines.push('- removed: ' + diff.rulesRemoved.join(', '));
+        if (diff.rulesReordered.length) lines.push('↕ reordered: ' + diff.rulesReordered.join(', '));
+        diff.rulesChanged.forEach((change) => {
+          lines.push('~ ' + change.id + ':');
+          change.ops.forEach((op) => {
+            const value = op.op === 'remove' ? '' : ' = ' + JSON.stringify(op.value);
+            lines.push('    ' + op.op + ' ' + (op.path || '/') + value);
+          });
+        });
+        if (diff.flagsChanged.length) lines.push('flags: ' + diff.flagsChanged.join(', '));
+        return lines.join('\\n');
+      }
+      function renderAuditItem(item) {
+        const div = document.createElement('div');
+        div.className = 'log-item';
+        const header = document.createElement('div');
+        header.className = 'log-header';
+        const summary = document.createElement('span');
+        summary.textContent = '[' + item.ts + '] ' + item.actor + ' — ' + item.action;
+        header.appendChild(summary);
+        if (typeof item.diffBytes === 'number' && !Number.isNaN(item.diffBytes)) {
+          const diff = document.createElement('span');
+          let cls = 'diff neutral';
+          let sign = '±';
+          if (item.diffBytes > 0) {
+            cls = 'diff positive';
+            sign = '+';
+          } else if (item.diffBytes < 0) {
+            cls = 'diff negative';
+            sign = '-';
           }
-          if (item.note) {
-            const noteEl = document.createElement('div');
-            noteEl.className = 'log-note';
-            noteEl.textContent = item.note;
-            div.appendChild(noteEl);
+          diff.className = cls;
+          diff.textContent = sign + Math.abs(item.diffBytes) + ' B';
+          header.appendChild(diff);
+        }
+        div.appendChild(header);
+        if (item.diff) {
+          const text = describeDiff(item.diff);
+          if (text) {
+            const diffEl = document.createElement('pre');
+            diffEl.className = 'diff neutral';
+            diffEl.textContent = text;
+            div.appendChild(diffEl);
           }
-          auditEl.appendChild(div);
+        }
+        if (item.error) {
+          const errorEl = document.createElement('div');
+          errorEl.className = 'log-error';
+          errorEl.textContent = item.error;
+          div.appendChild(errorEl);
+        }
+        if (item.note) {
+          const noteEl = document.createElement('div');
+          noteEl.className = 'log-note';
+          noteEl.textContent = item.note;
+          div.appendChild(noteEl);
+        }
+        return div;
+      }
+      async function loadAudit(append) {
+        const params = new URLSearchParams({ limit: '20' });
+        ['actor', 'action', 'rule'].forEach((name) => {
+          const value = document.getElementById('audit-' + name).value.trim();
+          if (value) params.set(name, value);
         });
+        if (append && auditCursor) params.set('cursor', auditCursor);
+        const page = await api('/api/audit?' + params.toString());
+        const auditEl = document.getElementById('audit');
+        if (!append) auditEl.innerHTML = '';
+        (page ? page.entries : []).forEach((item) => auditEl.appendChild(renderAuditItem(item)));
+        auditCursor = page ? page.cursor : null;
+        document.getElementById('audit-more').hidden = !auditCursor;
+      }
+      async function loadAll() {
+        const metaEl = document.getElementById('meta');
+        const [routes, flags, versions, me, health, conversions, stats] = await Promise.all([
+          api('/api/routes'),
+          api('/api/flags'),
+          api('/api/versions'),
+          api('/api/me'),
+          api('/api/health/targets'),
+          api('/api/conversions'),
+          api('/api/stats')
+        ]);
+        renderVersions(versions ? versions.versions : []);
+        renderHealth(health ? health.targets : []);
+        renderConversions(conversions ? conversions.rules : []);
+        renderStats(stats);
+        document.getElementById('routes').value = JSON.stringify(routes.routes, null, 2);
+        document.getElementById('flags').value = JSON.stringify(flags.flags, null, 2);
+        currentEtag = routes.etag || '';
+        metaEl.textContent =
+          (me ? me.username + ' (' + me.role + ') · ' : '') + 'etag: ' + (routes.etag || 'n/a');
+        await loadAudit(false);
       }
+      document.getElementById('health-check').addEventListener('click', () => {
+        clearStatus();
+        api('/api/health/check', { method: 'POST' })
+          .then((result) => {
+            renderHealth(result ? result.targets : []);
+            setStatus('success', 'Health check finished.');
+          })
+          .catch(handleError);
+      });
+      document.getElementById('audit-filter').addEventListener('click', () => {
+        clearStatus();
+        loadAudit(false).catch(handleError);
+      });
+      document.getElementById('audit-more').addEventListener('click', () => {
+        clearStatus();
+        loadAudit(true).catch(handleError);
+      });
       document.getElementById('reload').addEventListener('click', () => {
         clearStatus();
         loadAll().catch(handleError);
@@ -755,7 +3742,61 @@ function adminHtml(
           return;
         }
         api('/api/routes/validate', { method: 'POST', body: JSON.stringify({ routes }) })
-          .then(() => setStatus('success', 'Routes are valid.'))
+          .then((result) => {
+            renderIssues(result.issues);
+            const errors = result.issues.filter((issue) => issue.severity === 'error').length;
+            const warnings = result.issues.length - errors;
+            if (errors) {
+              setStatus('error', errors + ' error(s), ' + warnings + ' warning(s). Click one to find the rule.');
+            } else {
+              setStatus('success', 'Routes are valid.' + (warnings ? ' ' + warnings + ' warning(s).' : ''));
+            }
+          })
+          .catch(handleError);
+      });
+      document.getElementById('simulate').addEventListener('click', () => {
+        clearStatus();
+        const resultEl = document.getElementById('sim-result');
+        const body = {
+          url: document.getElementById('sim-url').value.trim(),
+          userAgent: document.getElementById('sim-ua').value,
+          country: document.getElementById('sim-country').value.trim(),
+          cfBot: document.getElementById('sim-bot').checked
+        };
+        if (document.getElementById('sim-draft').checked) {
+          try {
+            body.routes = readJson('routes', 'Routes');
+          } catch (err) {
+            handleError(err);
+            return;
+          }
+        }
+        api('/api/routes/simulate', { method: 'POST', body: JSON.stringify(body) })
+          .then((trace) => {
+            const lines = [
+              'device: ' + trace.device + ', bot: ' + trace.isBot,
+              'os: ' + trace.client.os + (trace.client.osVersion ? ' ' + trace.client.osVersion : '') +
+                ', browser: ' + trace.client.browser + (trace.client.inApp ? ' (in-app)' : ''),
+              ''
+            ];
+            trace.steps.forEach((step) => {
+              lines.push((step.matched ? '✔ ' : '✘ ') + step.id + (step.reason ? ' (' + step.reason + ')' : ''));
+            });
+            lines.push('');
+            if (trace.upstream) {
+              lines.push('→ proxied from ' + trace.upstream);
+            }
+            if (trace.response) {
+              lines.push('→ ' + trace.response.status + (trace.response.location ? ' ' + trace.response.location : ''));
+              Object.keys(trace.response.headers).forEach((key) => {
+                lines.push('  ' + key + ': ' + trace.response.headers[key]);
+              });
+            } else {
+              lines.push('→ no match, passed through to origin');
+            }
+            resultEl.textContent = lines.join('\\n');
+            resultEl.hidden = false;
+          })
           .catch(handleError);
       });
       document.getElementById('invalidate').addEventListener('click', () => {
@@ -775,13 +3816,41 @@ function adminHtml(
           handleError(err);
           return;
         }
-        Promise.all([
-          api('/api/routes', { method: 'PUT', body: JSON.stringify({ routes }) }),
-          api('/api/flags', { method: 'PUT', body: JSON.stringify({ flags }) })
-        ])
-          .then(() => loadAll().then(() => setStatus('success', 'Changes published.')).catch(handleError))
-          .catch(handleError);
+        publish(routes, flags, currentEtag);
       });
+      function publish(routes, flags, etag) {
+        api('/api/publish', {
+          method: 'POST',
+          headers: { 'If-Match': etag },
+          body: JSON.stringify({ routes, flags })
+        })
+          .then(() => loadAll().then(() => setStatus('success', 'Changes published.')).catch(handleError))
+          .catch((err) => {
+            if (err && err.status === 412 && err.body) {
+              showConflict(routes, flags, err.body);
+              return;
+            }
+            handleError(err);
+          });
+      }
+      function showConflict(routes, flags, info) {
+        const dialog = document.getElementById('conflict');
+        document.getElementById('conflict-info').textContent =
+          'Updated by ' + (info.updatedBy || 'unknown') + ' at ' + (info.updatedAt || 'n/a') +
+          '\\nCurrent etag: ' + info.etag;
+        const close = () => dialog.close();
+        document.getElementById('conflict-cancel').onclick = close;
+        document.getElementById('conflict-reload').onclick = () => {
+          close();
+          clearStatus();
+          loadAll().catch(handleError);
+        };
+        document.getElementById('conflict-overwrite').onclick = () => {
+          close();
+          publish(routes, flags, info.etag);
+        };
+        dialog.showModal();
+      }
       clearStatus();
       loadAll().catch(handleError);
     </script>
@@ -792,9 +3861,10 @@ function adminHtml(
 function adminResponse(
   flags: FlagsConfig,
   tokenFromQuery?: string,
-  kvReady = true
+  kvReady = true,
+  csrfToken?: string
 ): Response {
-  const body = adminHtml(flags, tokenFromQuery, kvReady);
+  const body = adminHtml(flags, tokenFromQuery, kvReady, csrfToken);
   const headers = new Headers();
   headers.set("Content-Type", "text/html; charset=utf-8");
   headers.set("Cache-Control", "no-store");
@@ -803,13 +3873,550 @@ function adminResponse(
     "Content-Security-Policy",
     "default-src 'self'; style-src 'self' 'unsafe-inline'; script-src 'self' 'unsafe-inline'"
   );
-  return new Response(body, { status: 200, headers });
+  return new Response(body, { status: 200, headers });
+}
+
+/** ----------------------------- Webhooks ----------------------------- */
+export interface WebhookEvent {
+  id: string;
+  action: string;
+  ts: string;
+  actor: string;
+  prevHash?: string;
+  newHash?: string;
+  rules: string[];
+  note?: string;
+  error?: string;
+}
+
+interface WebhookResult {
+  host: string;
+  attempts: number;
+  status?: number;
+  error?: string;
+}
+
+/** `flags.webhookUrl` is shorthand for a single JSON webhook. */
+function webhookTargets(flags: FlagsConfig): WebhookConfig[] {
+  const targets = flags.webhookUrl ? [{ url: flags.webhookUrl }] : [];
+  return [...targets, ...(flags.webhooks ?? [])];
+}
+
+function webhookEvent(entry: AuditEntry): WebhookEvent {
+  return {
+    id: crypto.randomUUID(),
+    action: entry.action,
+    ts: entry.ts,
+    actor: entry.actor,
+    prevHash: entry.prevHash,
+    newHash: entry.newHash,
+    rules: auditRuleIds(entry.diff),
+    note: entry.note,
+    error: entry.error,
+  };
+}
+
+function webhookText(event: WebhookEvent): string {
+  const lines = [`mini-tds: ${event.action} by ${event.actor}`];
+  if (event.rules.length) lines.push(`Rules: ${event.rules.join(", ")}`);
+  if (event.newHash) lines.push(`ETag: ${event.newHash}`);
+  if (event.note) lines.push(event.note);
+  if (event.error) lines.push(`Error: ${event.error}`);
+  return lines.join("\n");
+}
+
+function webhookBody(hook: WebhookConfig, event: WebhookEvent): string {
+  switch (hook.format ?? "json") {
+    case "slack":
+      return JSON.stringify({ text: webhookText(event) });
+    case "telegram":
+      return JSON.stringify({
+        chat_id: hook.chatId,
+        text: webhookText(event),
+        disable_web_page_preview: true,
+      });
+    default:
+      return JSON.stringify(event);
+  }
+}
+
+/** Hex HMAC-SHA256 over `<timestamp>.<body>`, sent as `X-TDS-Signature: t=<ts>,v1=<hex>`. */
+async function signWebhook(secret: string, timestamp: number, body: string): Promise<string> {
+  const key = await hmacKey(secret);
+  const sig = await crypto.subtle.sign(
+    "HMAC",
+    key,
+    new TextEncoder().encode(`${timestamp}.${body}`)
+  );
+  const hex = Array.from(new Uint8Array(sig))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+  return `t=${timestamp},v1=${hex}`;
+}
+
+/** Retries network errors, 429 and 5xx with exponential backoff; other statuses are final. */
+async function deliverWebhook(
+  env: Env,
+  hook: WebhookConfig,
+  event: WebhookEvent
+): Promise<WebhookResult> {
+  const body = webhookBody(hook, event);
+  const result: WebhookResult = { host: new URL(hook.url).host, attempts: 0 };
+  while (result.attempts < WEBHOOK_MAX_ATTEMPTS) {
+    if (result.attempts > 0) {
+      await new Promise((resolve) =>
+        setTimeout(resolve, WEBHOOK_BACKOFF_MS * 2 ** (result.attempts - 1))
+      );
+    }
+    result.attempts += 1;
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+      "User-Agent": "mini-tds-webhook",
+      "X-TDS-Event": event.action,
+      "X-TDS-Delivery": event.id,
+    };
+    if (env.WEBHOOK_SECRET) {
+      const timestamp = Math.floor(Date.now() / 1000);
+      headers["X-TDS-Signature"] = await signWebhook(env.WEBHOOK_SECRET, timestamp, body);
+    }
+    try {
+      const response = await fetch(hook.url, {
+        method: "POST",
+        headers,
+        body,
+        signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+      });
+      result.status = response.status;
+      result.error = response.ok ? undefined : `HTTP ${response.status}`;
+      if (response.ok || (response.status < 500 && response.status !== 429)) break;
+    } catch (error) {
+      result.status = undefined;
+      result.error = error instanceof Error ? error.message : String(error);
+    }
+  }
+  return result;
+}
+
+/** Sends the audited change to every matching webhook and audits each delivery outcome. */
+async function deliverWebhooks(env: Env, entry: AuditEntry): Promise<WebhookResult[]> {
+  const bundle = await hydrateCache(env);
+  const hooks = webhookTargets(bundle.flags).filter(
+    (hook) => !hook.events || hook.events.includes(entry.action)
+  );
+  if (!hooks.length) return [];
+  const event = webhookEvent(entry);
+  const results = await Promise.all(hooks.map((hook) => deliverWebhook(env, hook, event)));
+  for (const result of results) {
+    const outcome = result.error ?? `HTTP ${result.status}`;
+    await writeAudit(env, {
+      ts: nowIso(),
+      actor: "webhook",
+      action: "webhook.delivery",
+      note: `${event.action} → ${result.host}: ${outcome} after ${result.attempts} attempt(s)`,
+      error: result.error,
+    });
+  }
+  return results;
+}
+
+async function handleWebhookTest(env: Env, actor: string): Promise<Response> {
+  const results = await deliverWebhooks(env, {
+    ts: nowIso(),
+    actor,
+    action: "webhook.test",
+    note: "Test event",
+  });
+  return new Response(JSON.stringify({ results }), {
+    status: 200,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+/** ----------------------------- Target health ----------------------------- */
+/** Origin probed for a target template, or `null` when placeholders make the host dynamic. */
+function targetOrigin(template: string): string | null {
+  const m = /^https?:\/\/[^/?#]+/i.exec(template);
+  if (!m || m[0].includes("{")) return null;
+  try {
+    return new URL(m[0]).origin;
+  } catch {
+    return null;
+  }
+}
+
+function isTargetDown(template: string, health: TargetHealthMap): boolean {
+  const origin = targetOrigin(template);
+  return Boolean(origin && health[origin] && !health[origin].up);
+}
+
+function actionOrigins(action: TargetedAction): string[] {
+  const templates = [
+    action.target,
+    ...(action.targets ?? []).map((entry) => entry.target),
+    ...(action.fallbacks ?? []),
+  ];
+  return templates
+    .map((template) => (typeof template === "string" ? targetOrigin(template) : null))
+    .filter((origin): origin is string => Boolean(origin));
+}
+
+async function loadTargetHealth(env: Env): Promise<TargetHealthMap> {
+  if (!hasKv(env)) return {};
+  if (cachedHealth && cachedHealth.expiresAt > Date.now()) return cachedHealth.states;
+  const states = ((await env.CONFIG.get(HEALTH_KEY, "json")) as TargetHealthMap | null) ?? {};
+  cachedHealth = { states, expiresAt: Date.now() + healthCacheTtl() };
+  return states;
+}
+
+/** Health is cached for as long as the config bundle. */
+function healthCacheTtl(): number {
+  return Math.max(cachedConfig?.flags.cacheTtlMs || 60_000, MIN_TTL);
+}
+
+/** Health is only read for actions that have somewhere else to send traffic. */
+async function healthForAction(env: Env, action: TargetedAction): Promise<TargetHealthMap> {
+  const canFail = Boolean(action.fallbacks?.length) || (action.targets?.length ?? 0) > 1;
+  return canFail ? loadTargetHealth(env) : {};
+}
+
+/** One probe: any HTTP answer below 500 counts as up; 5xx, timeouts and network errors do not. */
+async function probeOrigin(
+  origin: string
+): Promise<{ up: boolean; status: number | null; error?: string }> {
+  try {
+    const res = await fetch(`${origin}/`, {
+      method: "HEAD",
+      redirect: "manual",
+      signal: AbortSignal.timeout(HEALTH_PROBE_TIMEOUT_MS),
+    });
+    return { up: res.status < 500, status: res.status };
+  } catch (error) {
+    const timedOut = error instanceof Error && error.name === "TimeoutError";
+    return { up: false, status: null, error: timedOut ? "timeout" : String(error) };
+  }
+}
+
+/**
+ * Probes every origin referenced by redirect and proxy rules and stores the result.
+ * An origin goes down after HEALTH_FAILURE_THRESHOLD failed probes in a row and comes
+ * back on the first success; each transition is audited (and so sent to webhooks).
+ */
+async function runHealthChecks(env: Env, ctx?: ExecutionContext): Promise<TargetHealthMap> {
+  if (!hasKv(env)) return {};
+  const bundle = await hydrateCache(env, true);
+  const origins = new Set<string>();
+  for (const rule of bundle.routes) {
+    if (rule.action?.type === "redirect" || rule.action?.type === "proxy") {
+      actionOrigins(rule.action).forEach((origin) => origins.add(origin));
+    }
+  }
+  const previous = ((await env.CONFIG.get(HEALTH_KEY, "json")) as TargetHealthMap | null) ?? {};
+  const states: TargetHealthMap = {};
+  const checkedAt = nowIso();
+  await Promise.all(
+    [...origins].map(async (origin) => {
+      const probe = await probeOrigin(origin);
+      const prev = previous[origin];
+      const failures = probe.up ? 0 : (prev?.failures ?? 0) + 1;
+      const up = probe.up || (prev?.up !== false && failures < HEALTH_FAILURE_THRESHOLD);
+      states[origin] = {
+        origin,
+        up,
+        status: probe.status,
+        error: probe.error,
+        failures,
+        checkedAt,
+        changedAt: prev && prev.up === up ? prev.changedAt : checkedAt,
+      };
+    })
+  );
+  await env.CONFIG.put(HEALTH_KEY, JSON.stringify(states));
+  cachedHealth = { states, expiresAt: Date.now() + healthCacheTtl() };
+  for (const state of Object.values(states)) {
+    const before = previous[state.origin]?.up ?? true;
+    if (before === state.up) continue;
+    const outcome = state.error ?? `HTTP ${state.status}`;
+    await writeAudit(
+      env,
+      {
+        ts: checkedAt,
+        actor: "scheduler",
+        action: state.up ? "health.up" : "health.down",
+        note: `${state.origin}: ${outcome}`,
+        error: state.up ? undefined : outcome,
+      },
+      ctx
+    );
+  }
+  return states;
+}
+
+function healthResponse(states: TargetHealthMap): Response {
+  const targets = Object.values(states).sort((a, b) => a.origin.localeCompare(b.origin));
+  return new Response(JSON.stringify({ targets }), {
+    status: 200,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+async function handleHealthTargets(env: Env): Promise<Response> {
+  const states = hasKv(env)
+    ? ((await env.CONFIG.get(HEALTH_KEY, "json")) as TargetHealthMap | null) ?? {}
+    : {};
+  return healthResponse(states);
+}
+
+async function handleHealthCheck(env: Env, ctx: ExecutionContext): Promise<Response> {
+  return healthResponse(await runHealthChecks(env, ctx));
+}
+
+/** ----------------------------- Users ----------------------------- */
+function userKey(username: string): string {
+  return `${USERS_PREFIX}/${username.toLowerCase()}`;
+}
+
+function userTokenKey(tokenHash: string): string {
+  return `${USER_TOKENS_PREFIX}/${tokenHash}`;
+}
+
+function generateToken(): string {
+  const bytes = new Uint8Array(32);
+  crypto.getRandomValues(bytes);
+  return `tds_${base64UrlEncode(bytes)}`;
+}
+
+async function loadUser(env: Env, username: string): Promise<UserRecord | null> {
+  if (!hasKv(env)) return null;
+  return env.CONFIG.get<UserRecord>(userKey(username), "json");
+}
+
+async function findUserByToken(env: Env, token: string): Promise<UserRecord | null> {
+  if (!hasKv(env)) return null;
+  const tokenHash = await hashText(token);
+  const username = await env.CONFIG.get(userTokenKey(tokenHash));
+  if (!username) return null;
+  const user = await loadUser(env, username);
+  if (!user || user.disabled || user.tokenHash !== tokenHash) return null;
+  return user;
+}
+
+async function saveUser(env: Env, user: UserRecord, previousHash?: string): Promise<void> {
+  await env.CONFIG.put(userKey(user.username), JSON.stringify(user));
+  if (previousHash && previousHash !== user.tokenHash) {
+    await env.CONFIG.delete(userTokenKey(previousHash));
+  }
+  await env.CONFIG.put(userTokenKey(user.tokenHash), user.username);
+}
+
+function publicUser(user: UserRecord): Omit<UserRecord, "tokenHash"> {
+  const { tokenHash: _tokenHash, ...rest } = user;
+  return rest;
+}
+
+async function handleUsersList(env: Env): Promise<Response> {
+  const users: Array<Omit<UserRecord, "tokenHash">> = [];
+  if (hasKv(env)) {
+    let cursor: string | undefined;
+    do {
+      const page = await env.CONFIG.list({ prefix: `${USERS_PREFIX}/`, cursor });
+      for (const key of page.keys) {
+        const user = await env.CONFIG.get<UserRecord>(key.name, "json");
+        if (user) users.push(publicUser(user));
+      }
+      cursor = page.list_complete ? undefined : page.cursor;
+    } while (cursor);
+  }
+  return new Response(JSON.stringify({ users }), {
+    status: 200,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+async function handleUsersCreate(
+  request: Request,
+  env: Env,
+  ctx: ExecutionContext,
+  actor: string
+): Promise<Response> {
+  if (!hasKv(env)) {
+    return new Response(JSON.stringify({ error: "kv_not_configured" }), {
+      status: 501,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+  const text = await request.text();
+  const payload = parseJsonBody<{ username?: unknown; role?: unknown }>(text);
+  if (typeof payload.username !== "string" || !USERNAME_RE.test(payload.username)) {
+    throw Object.assign(new Error("username must be 1-63 letters, digits, '.', '_' or '-'"), {
+      status: 400,
+    });
+  }
+  if (payload.username.toLowerCase() === "admin") {
+    throw Object.assign(new Error("username 'admin' is reserved for ADMIN_TOKEN"), {
+      status: 400,
+    });
+  }
+  if (!ROLES.includes(payload.role as Role)) {
+    throw Object.assign(new Error(`role must be one of ${ROLES.join(", ")}`), { status: 400 });
+  }
+  if (await loadUser(env, payload.username)) {
+    return new Response(JSON.stringify({ error: "user_exists" }), {
+      status: 409,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+  const token = generateToken();
+  const user: UserRecord = {
+    username: payload.username.toLowerCase(),
+    role: payload.role as Role,
+    tokenHash: await hashText(token),
+    createdAt: nowIso(),
+    createdBy: actor,
+  };
+  await saveUser(env, user);
+  await writeAudit(
+    env,
+    {
+      ts: user.createdAt,
+      actor,
+      action: "users.create",
+      note: `${user.username} (${user.role})`,
+    },
+    ctx
+  );
+  return new Response(JSON.stringify({ user: publicUser(user), token }), {
+    status: 201,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+async function handleUsersUpdate(
+  request: Request,
+  env: Env,
+  ctx: ExecutionContext,
+  actor: string,
+  username: string
+): Promise<Response> {
+  const existing = await loadUser(env, username);
+  if (!existing) {
+    return new Response(JSON.stringify({ error: "not_found" }), {
+      status: 404,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+  const text = await request.text();
+  const payload = parseJsonBody<{ role?: unknown; disabled?: unknown; rotateToken?: unknown }>(
+    text
+  );
+  if (typeof payload.role !== "undefined" && !ROLES.includes(payload.role as Role)) {
+    throw Object.assign(new Error(`role must be one of ${ROLES.join(", ")}`), { status: 400 });
+  }
+  if (typeof payload.disabled !== "undefined" && typeof payload.disabled !== "boolean") {
+    throw Object.assign(new Error("disabled must be a boolean"), { status: 400 });
+  }
+  const token = payload.rotateToken === true ? generateToken() : null;
+  const user: UserRecord = {
+    ...existing,
+    role: (payload.role as Role | undefined) ?? existing.role,
+    disabled: (payload.disabled as boolean | undefined) ?? existing.disabled,
+    tokenHash: token ? await hashText(token) : existing.tokenHash,
+    updatedAt: nowIso(),
+  };
+  await saveUser(env, user, existing.tokenHash);
+  const changes = [
+    user.role !== existing.role ? `role ${existing.role} → ${user.role}` : "",
+    Boolean(user.disabled) !== Boolean(existing.disabled)
+      ? user.disabled
+        ? "disabled"
+        : "enabled"
+      : "",
+    token ? "token rotated" : "",
+  ].filter(Boolean);
+  await writeAudit(
+    env,
+    {
+      ts: user.updatedAt!,
+      actor,
+      action: "users.update",
+      note: `${user.username}: ${changes.join(", ") || "no changes"}`,
+    },
+    ctx
+  );
+  return new Response(JSON.stringify({ user: publicUser(user), ...(token ? { token } : {}) }), {
+    status: 200,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+async function handleUsersDelete(
+  env: Env,
+  ctx: ExecutionContext,
+  actor: string,
+  username: string
+): Promise<Response> {
+  const existing = await loadUser(env, username);
+  if (!existing) {
+    return new Response(JSON.stringify({ error: "not_found" }), {
+      status: 404,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+  await env.CONFIG.delete(userTokenKey(existing.tokenHash));
+  await env.CONFIG.delete(userKey(existing.username));
+  await writeAudit(
+    env,
+    {
+      ts: nowIso(),
+      actor,
+      action: "users.delete",
+      note: existing.username,
+    },
+    ctx
+  );
+  return new Response(JSON.stringify({ ok: true }), {
+    status: 200,
+    headers: { "Content-Type": "application/json" },
+  });
 }
 
 /** ----------------------------- Admin API ----------------------------- */
-async function authorize(request: Request, env: Env, flags: FlagsConfig): Promise<void> {
-  const token = readAdminToken(request);
-  if (!token || token !== env.ADMIN_TOKEN) {
+async function principalForToken(env: Env, token: string): Promise<Principal | null> {
+  if (env.ADMIN_TOKEN && (await secretsEqual(token, env.ADMIN_TOKEN))) {
+    return { username: "admin", role: "admin", breakGlass: true };
+  }
+  const user = await findUserByToken(env, token);
+  return user ? { username: user.username, role: user.role, breakGlass: false } : null;
+}
+
+/**
+ * Resolves the caller: ADMIN_TOKEN acts as a break-glass superuser, others map to users.
+ * With `flags.sessionLogin` the session cookie is accepted too (mutations need the CSRF
+ * header) and `?token=` is refused.
+ */
+async function authorize(request: Request, env: Env, flags: FlagsConfig): Promise<Principal> {
+  if (flags.sessionLogin && new URL(request.url).searchParams.has("token")) {
+    throw Object.assign(new Error("Query-string tokens are disabled; sign in at /admin"), {
+      status: 401,
+    });
+  }
+  const token = readAdminToken(request, !flags.sessionLogin);
+  let principal: Principal | null = null;
+  if (token) {
+    principal = await principalForToken(env, token);
+  } else if (flags.sessionLogin) {
+    const session = await readSession(request, env);
+    principal = session ? await sessionPrincipal(env, session) : null;
+    const method = request.method.toUpperCase();
+    if (
+      principal &&
+      method !== "GET" &&
+      method !== "HEAD" &&
+      !(await secretsEqual(request.headers.get("x-csrf-token") || "", principal.csrf || ""))
+    ) {
+      throw Object.assign(new Error("Missing or invalid CSRF token"), { status: 403 });
+    }
+  }
+  if (!principal) {
     throw Object.assign(new Error("Unauthorized"), { status: 401 });
   }
   const ip =
@@ -817,12 +4424,98 @@ async function authorize(request: Request, env: Env, flags: FlagsConfig): Promis
   if (!isIpAllowed(ip, flags)) {
     throw Object.assign(new Error("Forbidden"), { status: 403 });
   }
+  return principal;
+}
+
+function hasRole(principal: Principal, role: Role): boolean {
+  return ROLES.indexOf(principal.role) >= ROLES.indexOf(role);
+}
+
+/** viewer: reads (plus dry-run validate/simulate), editor: routes, admin: flags, import, users. */
+function requiredRole(method: string, pathname: string): Role {
+  if (pathname === "/api/users" || pathname.startsWith("/api/users/")) return "admin";
+  if (pathname === "/api/import") return "admin";
+  if (pathname === "/api/webhooks/test") return "admin";
+  if (method === "GET") return "viewer";
+  if (pathname === "/api/routes/validate" || pathname === "/api/routes/simulate") {
+    return "viewer";
+  }
+  if (pathname === "/api/flags") return "admin";
+  return "editor";
+}
+
+function forbidden(message: string): Response {
+  return new Response(JSON.stringify({ error: "forbidden", message }), {
+    status: 403,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+/**
+ * Enforces `If-Match` against the bundle etag on mutating admin routes.
+ * Returns an error response, or `null` when the write may proceed. KV has no compare-and-swap,
+ * so this only catches stale editors: two writes racing between the check and the put both win.
+ */
+function checkPrecondition(request: Request, current: ConfigBundle): Response | null {
+  const raw = request.headers.get("if-match");
+  if (!raw) {
+    return new Response(JSON.stringify({ error: "if_match_required", etag: current.etag }), {
+      status: 428,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+  const ifMatch = raw.trim().replace(/^W\//, "").replace(/^"(.*)"$/, "$1");
+  if (ifMatch !== "*" && ifMatch !== current.etag) {
+    return new Response(
+      JSON.stringify({
+        error: "etag mismatch",
+        etag: current.etag,
+        updatedAt: current.metadata.updatedAt,
+        updatedBy: current.metadata.updatedBy,
+      }),
+      {
+        status: 412,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  }
+  return null;
+}
+
+/**
+ * Writes routes then flags as two KV puts, restoring the previous routes if flags fail. Not
+ * atomic: readers can see the new routes with the old flags in between, and a failed restore
+ * leaves them mixed.
+ */
+async function writeRoutesAndFlags(
+  env: Env,
+  routes: RouteRule[],
+  flags: FlagsConfig,
+  current: ConfigBundle
+): Promise<void> {
+  await env.CONFIG.put(configKey(env, "routes"), JSON.stringify(routes));
+  try {
+    await env.CONFIG.put(configKey(env, "flags"), JSON.stringify(flags));
+  } catch (error) {
+    await env.CONFIG.put(configKey(env, "routes"), JSON.stringify(current.routes));
+    throw error;
+  }
 }
 
 async function handleRoutesGet(env: Env): Promise<Response> {
   const bundle = await hydrateCache(env, true);
+  const now = Date.now();
+  const schedule: Record<string, ScheduleState> = {};
+  bundle.routes.forEach((rule) => {
+    schedule[rule.id] = scheduleState(rule.match || {}, now);
+  });
   return new Response(
-    JSON.stringify({ routes: bundle.routes, version: bundle.metadata.version, etag: bundle.etag }),
+    JSON.stringify({
+      routes: bundle.routes,
+      schedule,
+      version: bundle.metadata.version,
+      etag: bundle.etag,
+    }),
     {
       status: 200,
       headers: { "Content-Type": "application/json" },
@@ -840,9 +4533,393 @@ async function updateMetadata(env: Env, actor: string): Promise<MetadataRecord>
   return metadata;
 }
 
-async function handleRoutesPut(
-  request: Request,
+async function handleRoutesPut(
+  request: Request,
+  env: Env,
+  ctx: ExecutionContext,
+  actor: string
+): Promise<Response> {
+  if (!hasKv(env)) {
+    return new Response(JSON.stringify({ error: "kv_not_configured" }), {
+      status: 501,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+  const text = await request.text();
+  const payload = parseJsonBody<{ routes: unknown }>(text);
+  validateRoutesPayload(payload.routes);
+
+  const current = await hydrateCache(env, true);
+  const precondition = checkPrecondition(request, current);
+  if (precondition) return precondition;
+
+  const prevHash = current.etag;
+  const newRoutes = payload.routes;
+  await env.CONFIG.put(configKey(env, "routes"), JSON.stringify(newRoutes));
+  const metadata = await updateMetadata(env, actor);
+  invalidateCache();
+  const reloaded = await hydrateCache(env, true);
+
+  await writeAudit(
+    env,
+    {
+      ts: metadata.updatedAt,
+      actor,
+      action: "routes.update",
+      prevHash,
+      newHash: reloaded.etag,
+      diff: diffConfig(current, reloaded),
+      diffBytes: JSON.stringify(newRoutes).length - JSON.stringify(current.routes).length,
+    },
+    ctx
+  );
+  await recordVersion(env, reloaded, actor, "routes.update", current);
+
+  return new Response(JSON.stringify({ ok: true, etag: reloaded.etag }), {
+    status: 200,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+async function handleRoutesValidate(request: Request, env: Env): Promise<Response> {
+  const text = await request.text();
+  const payload = parseJsonBody<{ routes: unknown }>(text);
+  const issues = collectRouteIssues(payload.routes);
+  const ok = !issues.some((issue) => issue.severity === "error");
+  if (ok) {
+    const bundle = await hydrateCache(env);
+    issues.push(...analyzeRoutes(payload.routes as RouteRule[], bundle.flags));
+  }
+  return new Response(JSON.stringify({ ok, issues }), {
+    status: 200,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+interface SimulatePayload {
+  url: string;
+  userAgent?: string;
+  country?: string;
+  cfBot?: boolean;
+  ip?: string;
+  asn?: number;
+  at?: string;
+  headers?: Record<string, string>;
+  routes?: unknown;
+}
+
+interface SimulatedResponse {
+  status: number;
+  location: string | null;
+  headers: Record<string, string>;
+}
+
+interface SimulateStep {
+  id: string;
+  matched: boolean;
+  /** `target`: the rule matched but its target could not be built, so evaluation went on. */
+  reason?: MatchFailure | "target";
+}
+
+async function handleRoutesSimulate(
+  request: Request,
+  env: Env,
+  ctx: ExecutionContext
+): Promise<Response> {
+  const text = await request.text();
+  const payload = parseJsonBody<SimulatePayload>(text);
+  const invalid = (message: string) => Object.assign(new Error(message), { status: 400 });
+  if (typeof payload.url !== "string" || !payload.url) {
+    throw invalid("url is required");
+  }
+  let url: URL;
+  try {
+    url = new URL(payload.url);
+  } catch {
+    throw invalid("url must be an absolute http(s) URL");
+  }
+  if (url.protocol !== "https:" && url.protocol !== "http:") {
+    throw invalid("url must be an absolute http(s) URL");
+  }
+  for (const key of ["userAgent", "country", "ip", "at"] as const) {
+    if (typeof payload[key] !== "undefined" && typeof payload[key] !== "string") {
+      throw invalid(`${key} must be a string`);
+    }
+  }
+  if (
+    typeof payload.headers !== "undefined" &&
+    (!isPlainObject(payload.headers) ||
+      Object.values(payload.headers).some((value) => typeof value !== "string"))
+  ) {
+    throw invalid("headers must be an object of header names to strings");
+  }
+  const bundle = await hydrateCache(env);
+  let routes = bundle.routes;
+  if (typeof payload.routes !== "undefined") {
+    validateRoutesPayload(payload.routes);
+    routes = payload.routes;
+  }
+  const ua = payload.userAgent ?? "";
+  const country = (payload.country ?? "").toUpperCase();
+  const device = detectDevice(ua, bundle.classifier);
+  const asn = typeof payload.asn === "number" ? payload.asn : null;
+  const isBot = isBotAgent(ua, bundle.flags, bundle.classifier, payload.cfBot, asn);
+  const now = payload.at ? Date.parse(payload.at) : Date.now();
+  if (Number.isNaN(now)) {
+    throw invalid("at must be an ISO date");
+  }
+  let headers: Headers;
+  try {
+    headers = new Headers(payload.headers ?? {});
+  } catch {
+    throw invalid("headers must be an object of header names to strings");
+  }
+  if (ua) headers.set("User-Agent", ua);
+  if (payload.ip) headers.set("CF-Connecting-IP", payload.ip);
+  const facts: RequestFacts = {
+    host: url.hostname,
+    ip: payload.ip ?? "",
+    asn,
+    pathname: url.pathname,
+    searchParams: url.searchParams,
+    headers,
+    country,
+    device,
+    client: parseUserAgent(ua),
+    isBot,
+    now,
+    dryRun: true,
+  };
+  facts.touches = (await paramTouches(env, bundle.flags, headers, url.searchParams, now)).touches;
+  const simulated = new Request(url.toString(), { headers });
+
+  const steps: SimulateStep[] = [];
+  let matched: MatchContext | null = null;
+  let response: SimulatedResponse | null = null;
+  let upstream: string | null = null;
+  for (const rule of routes) {
+    const result = evaluateRoute(rule, facts);
+    if (!result.ctx) {
+      steps.push({ id: rule.id, matched: false, reason: result.reason });
+      continue;
+    }
+    const action = result.ctx.route.action;
+    if (action.type === "proxy") {
+      // Report the upstream URL instead of fetching it from a dry run.
+      const health = await healthForAction(env, action);
+      upstream = buildTargetUrl(action, result.ctx, simulated, facts, health)?.toString() ?? null;
+    } else {
+      const res = await executeRoute(result.ctx, simulated, facts, env, ctx);
+      if (res) {
+        const headers: Record<string, string> = {};
+        res.headers.forEach((value, key) => {
+          headers[key] = value;
+        });
+        response = { status: res.status, location: res.headers.get("location"), headers };
+      }
+    }
+    if (!response && !upstream) {
+      steps.push({ id: rule.id, matched: false, reason: "target" });
+      continue;
+    }
+    steps.push({ id: rule.id, matched: true });
+    matched = result.ctx;
+    break;
+  }
+
+  return new Response(
+    JSON.stringify({
+      input: {
+        url: url.toString(),
+        host: url.hostname,
+        userAgent: ua,
+        country,
+        cfBot: Boolean(payload.cfBot),
+        ip: payload.ip ?? "",
+        asn,
+        at: new Date(now).toISOString(),
+      },
+      device,
+      client: facts.client,
+      isBot,
+      steps,
+      match: matched ? { id: matched.route.id, variant: matched.variant?.id ?? null } : null,
+      response,
+      upstream,
+    }),
+    {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    }
+  );
+}
+
+async function handleRoutesPatch(
+  request: Request,
+  env: Env,
+  ctx: ExecutionContext,
+  actor: string,
+  id: string
+): Promise<Response> {
+  if (!hasKv(env)) {
+    return new Response(JSON.stringify({ error: "kv_not_configured" }), {
+      status: 501,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+  const text = await request.text();
+  const raw = parseJsonBody<Partial<RouteRule> | { patch: Partial<RouteRule> }>(text);
+  const current = await hydrateCache(env, true);
+  const precondition = checkPrecondition(request, current);
+  if (precondition) return precondition;
+  const existingIndex = current.routes.findIndex((route) => route.id === id);
+  if (existingIndex === -1) {
+    return new Response(JSON.stringify({ error: "not_found" }), {
+      status: 404,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+  const patch = (("patch" in raw ? raw.patch : raw) ?? {}) as Partial<RouteRule>;
+  const updated = { ...current.routes[existingIndex], ...patch } as RouteRule;
+  const routes = [...current.routes];
+  routes.splice(existingIndex, 1, updated);
+  // Issues in the patched rule point into the request body (the merged rule, under `/patch`
+  // when wrapped); issues elsewhere keep their /routes/N pointer into the stored list.
+  const rulePointer = `/routes/${existingIndex}`;
+  const bodyPointer = "patch" in raw ? "/patch" : "";
+  validateRoutesPayload(routes, (path) =>
+    path === rulePointer || path.startsWith(`${rulePointer}/`)
+      ? bodyPointer + path.slice(rulePointer.length)
+      : path
+  );
+  await env.CONFIG.put(configKey(env, "routes"), JSON.stringify(routes));
+  const metadata = await updateMetadata(env, actor);
+  invalidateCache();
+  const reloaded = await hydrateCache(env, true);
+  await writeAudit(
+    env,
+    {
+      ts: metadata.updatedAt,
+      actor,
+      action: "routes.patch",
+      prevHash: current.etag,
+      newHash: reloaded.etag,
+      diff: diffConfig(current, reloaded),
+      diffBytes: JSON.stringify(routes).length - JSON.stringify(current.routes).length,
+    },
+    ctx
+  );
+  await recordVersion(env, reloaded, actor, "routes.patch", current);
+  return new Response(JSON.stringify({ ok: true, etag: reloaded.etag }), {
+    status: 200,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+async function handleRoutesDelete(
+  request: Request,
+  env: Env,
+  ctx: ExecutionContext,
+  actor: string,
+  id: string
+): Promise<Response> {
+  if (!hasKv(env)) {
+    return new Response(JSON.stringify({ error: "kv_not_configured" }), {
+      status: 501,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+  const current = await hydrateCache(env, true);
+  const precondition = checkPrecondition(request, current);
+  if (precondition) return precondition;
+  const next = current.routes.filter((route) => route.id !== id);
+  if (next.length === current.routes.length) {
+    return new Response(JSON.stringify({ error: "not_found" }), {
+      status: 404,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+  await env.CONFIG.put(configKey(env, "routes"), JSON.stringify(next));
+  const metadata = await updateMetadata(env, actor);
+  invalidateCache();
+  const reloaded = await hydrateCache(env, true);
+  await writeAudit(
+    env,
+    {
+      ts: metadata.updatedAt,
+      actor,
+      action: "routes.delete",
+      prevHash: current.etag,
+      newHash: reloaded.etag,
+      diff: diffConfig(current, reloaded),
+      diffBytes: JSON.stringify(next).length - JSON.stringify(current.routes).length,
+    },
+    ctx
+  );
+  await recordVersion(env, reloaded, actor, "routes.delete", current);
+  return new Response(JSON.stringify({ ok: true, etag: reloaded.etag }), {
+    status: 200,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+async function handleFlagsGet(env: Env): Promise<Response> {
+  const bundle = await hydrateCache(env, true);
+  const flags = hasKv(env)
+    ? bundle.flags
+    : { ...bundle.flags, uiReadonly: true };
+  return new Response(JSON.stringify({ flags, etag: bundle.etag }), {
+    status: 200,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+async function handleFlagsPut(
+  request: Request,
+  env: Env,
+  ctx: ExecutionContext,
+  actor: string
+): Promise<Response> {
+  if (!hasKv(env)) {
+    return new Response(JSON.stringify({ error: "kv_not_configured" }), {
+      status: 501,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+  const text = await request.text();
+  const payload = parseJsonBody<{ flags: unknown }>(text);
+  validateFlagsPayload(payload.flags);
+  const flags = payload.flags as FlagsConfig;
+  const current = await hydrateCache(env, true);
+  const precondition = checkPrecondition(request, current);
+  if (precondition) return precondition;
+  await env.CONFIG.put(configKey(env, "flags"), JSON.stringify(flags));
+  const metadata = await updateMetadata(env, actor);
+  invalidateCache();
+  const reloaded = await hydrateCache(env, true);
+  await writeAudit(
+    env,
+    {
+      ts: metadata.updatedAt,
+      actor,
+      action: "flags.update",
+      prevHash: current.etag,
+      newHash: reloaded.etag,
+      diff: diffConfig(current, reloaded),
+      diffBytes: JSON.stringify(flags).length - JSON.stringify(current.flags).length,
+    },
+    ctx
+  );
+  await recordVersion(env, reloaded, actor, "flags.update", current);
+  return new Response(JSON.stringify({ ok: true, etag: reloaded.etag }), {
+    status: 200,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+async function handleCacheInvalidate(
   env: Env,
+  ctx: ExecutionContext,
   actor: string
 ): Promise<Response> {
   if (!hasKv(env)) {
@@ -851,100 +4928,160 @@ async function handleRoutesPut(
       headers: { "Content-Type": "application/json" },
     });
   }
-  const text = await request.text();
-  const payload = parseJsonBody<{ routes: unknown }>(text);
-  validateRoutesPayload(payload.routes);
-
-  const current = await hydrateCache(env, true);
-  const ifMatch = request.headers.get("if-match");
-  if (ifMatch && ifMatch !== current.etag) {
-    return new Response(JSON.stringify({ error: "etag mismatch" }), {
-      status: 412,
-      headers: { "Content-Type": "application/json" },
-    });
-  }
-
-  const prevHash = current.etag;
-  const newRoutes = payload.routes;
-  await env.CONFIG.put(configKey(env, "routes"), JSON.stringify(newRoutes));
-  const metadata = await updateMetadata(env, actor);
   invalidateCache();
-  const reloaded = await hydrateCache(env, true);
-
-  await writeAudit(env, {
-    ts: metadata.updatedAt,
-    actor,
-    action: "routes.update",
-    prevHash,
-    newHash: reloaded.etag,
-    diffBytes: JSON.stringify(newRoutes).length - JSON.stringify(current.routes).length,
-  });
-
-  return new Response(JSON.stringify({ ok: true, etag: reloaded.etag }), {
+  await writeAudit(
+    env,
+    {
+      ts: nowIso(),
+      actor,
+      action: "cache.invalidate",
+    },
+    ctx
+  );
+  return new Response(JSON.stringify({ ok: true }), {
     status: 200,
     headers: { "Content-Type": "application/json" },
   });
 }
 
-async function handleRoutesValidate(request: Request): Promise<Response> {
-  const text = await request.text();
-  const payload = parseJsonBody<{ routes: unknown }>(text);
-  validateRoutesPayload(payload.routes);
-  return new Response(JSON.stringify({ ok: true }), {
+function auditKeyTs(name: string): string {
+  // Keys look like AUDIT/<inverted-ms>-<iso-ts>-<uuid>; entries written before the inverted
+  // prefix existed use AUDIT/<iso-ts>-<uuid>. Both parts are fixed width.
+  const offset = AUDIT_PREFIX.length + 1 + (isLegacyAuditKey(name) ? 0 : AUDIT_TS_WIDTH + 1);
+  return name.slice(offset, offset + 24);
+}
+
+function isLegacyAuditKey(name: string): boolean {
+  return name.charAt(AUDIT_PREFIX.length + 1) !== "0";
+}
+
+function auditMatches(
+  query: AuditQuery,
+  entry: { actor: string; action: string; rules?: string[] }
+): boolean {
+  if (query.actor && !entry.actor.toLowerCase().includes(query.actor.toLowerCase())) {
+    return false;
+  }
+  if (query.action && !entry.action.startsWith(query.action)) return false;
+  if (query.rule && !(entry.rules ?? []).includes(query.rule)) return false;
+  return true;
+}
+
+async function readAuditEntry(env: Env, name: string): Promise<AuditEntry | null> {
+  const value = await env.AUDIT.get(name);
+  if (!value) return null;
+  try {
+    return JSON.parse(value) as AuditEntry;
+  } catch (error) {
+    return {
+      ts: auditKeyTs(name),
+      actor: "system",
+      action: "audit.parse_error",
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+async function handleAudit(env: Env, query: AuditQuery): Promise<Response> {
+  if (!hasKv(env)) {
+    return new Response(JSON.stringify({ entries: [], cursor: null }), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+  for (const key of ["from", "to"] as const) {
+    const value = query[key];
+    if (typeof value === "undefined") continue;
+    if (Number.isNaN(Date.parse(value))) {
+      return new Response(JSON.stringify({ error: `${key} must be an ISO date` }), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+    query[key] = new Date(value).toISOString();
+  }
+
+  // Keys list newest first, so each KV page is filtered on its metadata and only the matching
+  // values are read. Pages are sized to the entries still missing, which keeps the KV cursor
+  // exact; a sparse filter stops after AUDIT_SCAN_PAGES and hands the cursor back instead.
+  const entries: AuditEntry[] = [];
+  let cursor = query.cursor || undefined;
+  let done = false;
+  for (let scanned = 0; scanned < AUDIT_SCAN_PAGES && !done && entries.length < query.limit; ) {
+    scanned += 1;
+    const page = await env.AUDIT.list<AuditKeyMetadata>({
+      prefix: `${AUDIT_PREFIX}/`,
+      limit: query.limit - entries.length,
+      cursor,
+    });
+    cursor = page.list_complete ? undefined : page.cursor;
+    done = !cursor;
+    const names: string[] = [];
+    for (const key of page.keys) {
+      const ts = key.metadata?.ts ?? auditKeyTs(key.name);
+      if (query.to && ts >= query.to) continue;
+      if (query.from && ts < query.from) {
+        // Inverted keys only get older from here, and legacy keys (listed oldest first after
+        // them) all predate them; a legacy key may still be followed by newer legacy keys.
+        if (!isLegacyAuditKey(key.name)) {
+          done = true;
+          break;
+        }
+        continue;
+      }
+      const meta = key.metadata;
+      if (meta && !meta.rulesTruncated && !auditMatches(query, meta)) continue;
+      names.push(key.name);
+    }
+    const found = await Promise.all(names.map((name) => readAuditEntry(env, name)));
+    for (const entry of found) {
+      if (!entry) continue;
+      if (!auditMatches(query, { ...entry, rules: auditRuleIds(entry.diff) })) continue;
+      entries.push(entry);
+    }
+  }
+  return new Response(JSON.stringify({ entries, cursor: done ? null : cursor ?? null }), {
     status: 200,
     headers: { "Content-Type": "application/json" },
   });
 }
 
-async function handleRoutesPatch(
-  request: Request,
-  env: Env,
-  actor: string,
-  id: string
-): Promise<Response> {
+async function handleVersionsList(env: Env): Promise<Response> {
   if (!hasKv(env)) {
-    return new Response(JSON.stringify({ error: "kv_not_configured" }), {
-      status: 501,
+    return new Response(JSON.stringify({ versions: [] }), {
+      status: 200,
       headers: { "Content-Type": "application/json" },
     });
   }
-  const text = await request.text();
-  const raw = parseJsonBody<Partial<RouteRule> | { patch: Partial<RouteRule> }>(text);
-  const current = await hydrateCache(env, true);
-  const existingIndex = current.routes.findIndex((route) => route.id === id);
-  if (existingIndex === -1) {
+  const [index, bundle] = await Promise.all([loadVersionIndex(env), hydrateCache(env, true)]);
+  const versions = index.map((item) => ({ ...item, current: item.etag === bundle.etag }));
+  return new Response(JSON.stringify({ versions, etag: bundle.etag }), {
+    status: 200,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+async function handleVersionGet(env: Env, etag: string): Promise<Response> {
+  const snapshot = hasKv(env) ? await loadVersion(env, etag) : null;
+  if (!snapshot) {
     return new Response(JSON.stringify({ error: "not_found" }), {
       status: 404,
       headers: { "Content-Type": "application/json" },
     });
   }
-  const patch = (("patch" in raw ? raw.patch : raw) ?? {}) as Partial<RouteRule>;
-  const updated = { ...current.routes[existingIndex], ...patch } as RouteRule;
-  const routes = [...current.routes];
-  routes.splice(existingIndex, 1, updated);
-  validateRoutesPayload(routes);
-  await env.CONFIG.put(configKey(env, "routes"), JSON.stringify(routes));
-  const metadata = await updateMetadata(env, actor);
-  invalidateCache();
-  const reloaded = await hydrateCache(env, true);
-  await writeAudit(env, {
-    ts: metadata.updatedAt,
-    actor,
-    action: "routes.patch",
-    prevHash: current.etag,
-    newHash: reloaded.etag,
-    diffBytes: JSON.stringify(routes).length - JSON.stringify(current.routes).length,
-  });
-  return new Response(JSON.stringify({ ok: true, etag: reloaded.etag }), {
+  return new Response(JSON.stringify(snapshot), {
     status: 200,
     headers: { "Content-Type": "application/json" },
   });
 }
 
-async function handleRoutesDelete(
+async function handleRollback(
+  request: Request,
   env: Env,
+  ctx: ExecutionContext,
+  principal: Principal,
   actor: string,
-  id: string
+  etag: string
 ): Promise<Response> {
   if (!hasKv(env)) {
     return new Response(JSON.stringify({ error: "kv_not_configured" }), {
@@ -952,47 +5089,70 @@ async function handleRoutesDelete(
       headers: { "Content-Type": "application/json" },
     });
   }
-  const current = await hydrateCache(env, true);
-  const next = current.routes.filter((route) => route.id !== id);
-  if (next.length === current.routes.length) {
+  const snapshot = await loadVersion(env, etag);
+  if (!snapshot) {
     return new Response(JSON.stringify({ error: "not_found" }), {
       status: 404,
       headers: { "Content-Type": "application/json" },
     });
   }
-  await env.CONFIG.put(configKey(env, "routes"), JSON.stringify(next));
+  const current = await hydrateCache(env, true);
+  const precondition = checkPrecondition(request, current);
+  if (precondition) return precondition;
+  if (!hasRole(principal, "admin") && !sameJson(snapshot.flags, current.flags)) {
+    return forbidden("Only admins can roll back to a version with different flags");
+  }
+  await writeRoutesAndFlags(env, snapshot.routes, snapshot.flags, current);
   const metadata = await updateMetadata(env, actor);
   invalidateCache();
   const reloaded = await hydrateCache(env, true);
-  await writeAudit(env, {
-    ts: metadata.updatedAt,
-    actor,
-    action: "routes.delete",
-    prevHash: current.etag,
-    newHash: reloaded.etag,
-    diffBytes: JSON.stringify(next).length - JSON.stringify(current.routes).length,
-  });
+  await writeAudit(
+    env,
+    {
+      ts: metadata.updatedAt,
+      actor,
+      action: "config.rollback",
+      prevHash: current.etag,
+      newHash: reloaded.etag,
+      diff: diffConfig(current, reloaded),
+      diffBytes:
+        JSON.stringify(snapshot.routes).length + JSON.stringify(snapshot.flags).length -
+        (JSON.stringify(current.routes).length + JSON.stringify(current.flags).length),
+      note: `Rolled back to ${etag}`,
+    },
+    ctx
+  );
+  await recordVersion(env, reloaded, actor, "config.rollback", current);
   return new Response(JSON.stringify({ ok: true, etag: reloaded.etag }), {
     status: 200,
     headers: { "Content-Type": "application/json" },
   });
 }
 
-async function handleFlagsGet(env: Env): Promise<Response> {
+async function handleExport(env: Env): Promise<Response> {
   const bundle = await hydrateCache(env, true);
-  const flags = hasKv(env)
-    ? bundle.flags
-    : { ...bundle.flags, uiReadonly: true };
-  return new Response(JSON.stringify({ flags }), {
-    status: 200,
-    headers: { "Content-Type": "application/json" },
-  });
+  return new Response(
+    JSON.stringify({
+      routes: bundle.routes,
+      flags: bundle.flags,
+      metadata: bundle.metadata,
+      etag: bundle.etag,
+    }),
+    {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    }
+  );
 }
 
-async function handleFlagsPut(
+/** Replaces routes and flags in one write; shared by import and publish. */
+async function handleConfigReplace(
   request: Request,
   env: Env,
-  actor: string
+  ctx: ExecutionContext,
+  principal: Principal,
+  actor: string,
+  action: "config.import" | "config.publish"
 ): Promise<Response> {
   if (!hasKv(env)) {
     return new Response(JSON.stringify({ error: "kv_not_configured" }), {
@@ -1001,233 +5161,1223 @@ async function handleFlagsPut(
     });
   }
   const text = await request.text();
-  const payload = parseJsonBody<{ flags: unknown }>(text);
+  const payload = parseJsonBody<{
+    routes: unknown;
+    flags: unknown;
+  }>(text);
+  validateRoutesPayload(payload.routes);
   validateFlagsPayload(payload.flags);
-  const flags = payload.flags as FlagsConfig;
   const current = await hydrateCache(env, true);
-  await env.CONFIG.put(configKey(env, "flags"), JSON.stringify(flags));
+  const precondition = checkPrecondition(request, current);
+  if (precondition) return precondition;
+  if (!hasRole(principal, "admin") && !sameJson(payload.flags, current.flags)) {
+    return forbidden("Only admins can change flags");
+  }
+  await writeRoutesAndFlags(env, payload.routes, payload.flags, current);
   const metadata = await updateMetadata(env, actor);
   invalidateCache();
   const reloaded = await hydrateCache(env, true);
-  await writeAudit(env, {
-    ts: metadata.updatedAt,
-    actor,
-    action: "flags.update",
-    prevHash: current.etag,
-    newHash: reloaded.etag,
-    diffBytes: JSON.stringify(flags).length - JSON.stringify(current.flags).length,
-  });
-  return new Response(JSON.stringify({ ok: true }), {
+  await writeAudit(
+    env,
+    {
+      ts: metadata.updatedAt,
+      actor,
+      action,
+      prevHash: current.etag,
+      newHash: reloaded.etag,
+      diff: diffConfig(current, reloaded),
+      diffBytes:
+        JSON.stringify(payload.routes).length + JSON.stringify(payload.flags).length -
+        (JSON.stringify(current.routes).length + JSON.stringify(current.flags).length),
+    },
+    ctx
+  );
+  await recordVersion(env, reloaded, actor, action, current);
+  return new Response(JSON.stringify({ ok: true, etag: reloaded.etag }), {
     status: 200,
     headers: { "Content-Type": "application/json" },
   });
 }
 
-async function handleCacheInvalidate(env: Env, actor: string): Promise<Response> {
-  if (!hasKv(env)) {
-    return new Response(JSON.stringify({ error: "kv_not_configured" }), {
-      status: 501,
-      headers: { "Content-Type": "application/json" },
-    });
+/** ----------------------------- Sticky assignment ----------------------------- */
+/** Target a visitor was sent to by one sticky rule; the cookie holds one per rule id. */
+interface StickyAssignment {
+  targetId: string;
+  expiresAt: number;
+}
+
+type StickyAssignments = Record<string, StickyAssignment>;
+
+/** Never falls back to ADMIN_TOKEN: visitor cookies would let anyone guess it offline. */
+function stickySecret(env: Env): string | null {
+  return env.STICKY_SECRET || null;
+}
+
+function base64UrlEncode(bytes: Uint8Array): string {
+  let binary = "";
+  bytes.forEach((b) => {
+    binary += String.fromCharCode(b);
+  });
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function base64UrlDecode(value: string): Uint8Array<ArrayBuffer> {
+  const normalized = value.replace(/-/g, "+").replace(/_/g, "/");
+  const padded = normalized + "=".repeat((4 - (normalized.length % 4)) % 4);
+  const binary = atob(padded);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+async function hmacKey(secret: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign", "verify"]
+  );
+}
+
+/**
+ * What a signed value is for. The purpose is part of the MAC input, so a token minted for one
+ * use (say a hop link) never verifies as another (a session) even when the secrets are shared.
+ */
+type SigningPurpose = "session" | "sticky" | "hop" | "params";
+
+/** Encodes `data` as `<base64url json>.<base64url hmac>`. */
+async function signValue(secret: string, purpose: SigningPurpose, data: unknown): Promise<string> {
+  const payload = base64UrlEncode(new TextEncoder().encode(JSON.stringify(data)));
+  const key = await hmacKey(secret);
+  const sig = await crypto.subtle.sign(
+    "HMAC",
+    key,
+    new TextEncoder().encode(`${purpose}.${payload}`)
+  );
+  return `${payload}.${base64UrlEncode(new Uint8Array(sig))}`;
+}
+
+/** Returns the signed payload, still untyped: callers check its shape before use. */
+async function verifyValue(
+  secret: string,
+  purpose: SigningPurpose,
+  value: string | null
+): Promise<unknown> {
+  if (!value) return null;
+  const [payload, sig, extra] = value.split(".");
+  if (!payload || !sig || typeof extra !== "undefined") return null;
+  try {
+    const key = await hmacKey(secret);
+    const ok = await crypto.subtle.verify(
+      "HMAC",
+      key,
+      base64UrlDecode(sig),
+      new TextEncoder().encode(`${purpose}.${payload}`)
+    );
+    if (!ok) return null;
+    return JSON.parse(new TextDecoder().decode(base64UrlDecode(payload)));
+  } catch {
+    return null;
+  }
+}
+
+/** Keeps the STICKY_MAX_RULES assignments that expire last. */
+async function signSticky(secret: string, assignments: StickyAssignments): Promise<string> {
+  const kept = Object.entries(assignments)
+    .sort(([, a], [, b]) => b.expiresAt - a.expiresAt)
+    .slice(0, STICKY_MAX_RULES);
+  return signValue(
+    secret,
+    "sticky",
+    Object.fromEntries(kept.map(([ruleId, pin]) => [ruleId, [pin.targetId, pin.expiresAt]]))
+  );
+}
+
+/** Valid, unexpired assignments from the cookie; malformed entries are dropped. */
+async function verifySticky(secret: string, value: string | null): Promise<StickyAssignments> {
+  const data = await verifyValue(secret, "sticky", value);
+  const assignments: StickyAssignments = {};
+  if (!isPlainObject(data)) return assignments;
+  const now = Date.now();
+  for (const [ruleId, pin] of Object.entries(data)) {
+    if (!Array.isArray(pin) || typeof pin[0] !== "string" || typeof pin[1] !== "number") continue;
+    if (pin[1] <= now) continue;
+    assignments[ruleId] = { targetId: pin[0], expiresAt: pin[1] };
+  }
+  return assignments;
+}
+
+function withCookie(response: Response, cookie: string): Response {
+  const copy = new Response(response.body, response);
+  copy.headers.append("Set-Cookie", cookie);
+  return copy;
+}
+
+function stickyCookie(name: string, value: string, ttlSec: number): string {
+  return `${name}=${value}; Max-Age=${Math.floor(ttlSec)}; Path=/; Secure; HttpOnly; SameSite=Lax`;
+}
+
+/**
+ * Puts the target pinned for this (already matched) rule back on `context`. Without a pin, or
+ * when its target no longer exists, `context` is left alone so a fresh one gets picked.
+ */
+function resolveSticky(assignment: StickyAssignment | undefined, context: MatchContext): void {
+  const action = context.route.action;
+  if (!assignment || (action.type !== "redirect" && action.type !== "proxy")) return;
+  const variant = findVariant(action, assignment.targetId);
+  if (variant) context.variant = variant;
+}
+
+/** ----------------------------- Parameter persistence ----------------------------- */
+/** Tagged params from the visitor's first and latest tagged visits. */
+interface ParamTouches {
+  first: Record<string, string>;
+  last: Record<string, string>;
+  firstAt: number;
+  lastAt: number;
+}
+
+function persistCookieName(flags: FlagsConfig): string {
+  return flags.persistCookieName || DEFAULT_FLAGS.persistCookieName!;
+}
+
+/** `utm_*` matches every param starting with `utm_`; other entries match exactly. */
+function isPersistedParam(name: string, patterns: string[]): boolean {
+  return patterns.some((pattern) =>
+    pattern.endsWith("*") ? name.startsWith(pattern.slice(0, -1)) : name === pattern
+  );
+}
+
+/**
+ * Keeps the params matching `patterns`, within the count, value-length and byte budgets,
+ * so neither a long query string nor a tampered cookie can grow the cookie unbounded.
+ */
+function capturedParams(
+  entries: Array<[string, string]>,
+  patterns: string[]
+): Record<string, string> {
+  const captured: Record<string, string> = {};
+  let size = 2;
+  let count = 0;
+  for (const [name, raw] of entries) {
+    if (!raw || !isPersistedParam(name, patterns) || count >= PERSIST_MAX_PARAMS) continue;
+    const value = raw.slice(0, PERSIST_MAX_VALUE_LENGTH);
+    const bytes = new TextEncoder().encode(JSON.stringify({ [name]: value })).length - 1;
+    if (size + bytes > PERSIST_TOUCH_MAX_BYTES) continue;
+    captured[name] = value;
+    size += bytes;
+    count += 1;
+  }
+  return captured;
+}
+
+function isStringMap(value: unknown): value is Record<string, string> {
+  return isPlainObject(value) && Object.values(value).every((item) => typeof item === "string");
+}
+
+/** The cookie is signed like the sticky one; a forged or stale-format value is ignored. */
+async function readTouches(
+  secret: string,
+  headers: Headers,
+  cookieName: string,
+  patterns: string[]
+): Promise<ParamTouches | null> {
+  const data = await verifyValue(secret, "params", readCookie(headers, cookieName));
+  if (!isPlainObject(data) || !isStringMap(data.f) || !isStringMap(data.l)) return null;
+  // Params dropped from flags.persistParams since the cookie was written are not replayed.
+  return {
+    first: capturedParams(Object.entries(data.f), patterns),
+    last: capturedParams(Object.entries(data.l), patterns),
+    firstAt: Number(data.ft) || 0,
+    lastAt: Number(data.lt) || 0,
+  };
+}
+
+async function touchesCookie(
+  secret: string,
+  name: string,
+  touches: ParamTouches,
+  ttlSec: number
+): Promise<string> {
+  const value = await signValue(secret, "params", {
+    f: touches.first,
+    l: touches.last,
+    ft: touches.firstAt,
+    lt: touches.lastAt,
+  });
+  return `${name}=${value}; Max-Age=${Math.floor(ttlSec)}; Path=/; Secure; HttpOnly; SameSite=Lax`;
+}
+
+/**
+ * Combines the persistence cookie with the params on this request. `updated` is set when
+ * the request carried tracked params and the cookie needs rewriting: the first touch is
+ * kept until the cookie expires, the last touch is replaced on every tagged visit.
+ */
+async function paramTouches(
+  env: Env,
+  flags: FlagsConfig,
+  headers: Headers,
+  searchParams: URLSearchParams,
+  now: number
+): Promise<{ touches?: ParamTouches; updated: boolean }> {
+  const patterns = flags.persistParams ?? [];
+  const secret = stickySecret(env);
+  if (!patterns.length || !secret) return { updated: false };
+  const previous = await readTouches(secret, headers, persistCookieName(flags), patterns);
+  const entries: Array<[string, string]> = [];
+  searchParams.forEach((value, name) => entries.push([name, value]));
+  const captured = capturedParams(entries, patterns);
+  if (!Object.keys(captured).length) return { touches: previous ?? undefined, updated: false };
+  const touches: ParamTouches = previous
+    ? { ...previous, last: captured, lastAt: now }
+    : { first: captured, last: captured, firstAt: now, lastAt: now };
+  return { touches, updated: true };
+}
+
+/** ----------------------------- Rate limiting ----------------------------- */
+/** Fixed-window hit counters. Implementations only need to be approximately atomic. */
+export interface CounterStore {
+  /** Adds one hit to `key`, which is forgotten after `ttlSec`, and returns the new count. */
+  increment(key: string, ttlSec: number): Promise<number>;
+}
+
+/** Per-isolate counters: exact for tests and `wrangler dev`, best effort in production. */
+export class MemoryCounterStore implements CounterStore {
+  private readonly counters = new Map<string, { count: number; expiresAt: number }>();
+
+  async increment(key: string, ttlSec: number): Promise<number> {
+    const now = Date.now();
+    if (this.counters.size > 10_000) {
+      for (const [name, entry] of this.counters) {
+        if (entry.expiresAt <= now) this.counters.delete(name);
+      }
+    }
+    const current = this.counters.get(key);
+    const entry =
+      current && current.expiresAt > now ? current : { count: 0, expiresAt: now + ttlSec * 1000 };
+    entry.count += 1;
+    this.counters.set(key, entry);
+    return entry.count;
+  }
+}
+
+/** Shared across isolates, but read-modify-write, so bursts can slightly overshoot the limit. */
+export class KvCounterStore implements CounterStore {
+  constructor(private readonly kv: KVNamespace) {}
+
+  async increment(key: string, ttlSec: number): Promise<number> {
+    const name = `${RATE_LIMIT_PREFIX}/${key}`;
+    const count = Number((await this.kv.get(name)) || 0) + 1;
+    // KV rejects expirations shorter than 60 seconds.
+    await this.kv.put(name, String(count), { expirationTtl: Math.max(60, ttlSec) });
+    return count;
+  }
+}
+
+/** Exact counts: each key is served by its own Durable Object (see RateLimitCounter). */
+export class DurableObjectCounterStore implements CounterStore {
+  constructor(private readonly namespace: DurableObjectNamespace) {}
+
+  async increment(key: string, ttlSec: number): Promise<number> {
+    const stub = this.namespace.get(this.namespace.idFromName(key));
+    const res = await stub.fetch(`https://rate-limit/increment?ttl=${ttlSec}`, { method: "POST" });
+    return Number(await res.text());
+  }
+}
+
+/** Durable Object behind DurableObjectCounterStore; it deletes its count when the window ends. */
+export class RateLimitCounter {
+  constructor(private readonly state: DurableObjectState) {}
+
+  async fetch(request: Request): Promise<Response> {
+    const ttlSec = Number(new URL(request.url).searchParams.get("ttl")) || 60;
+    const count = ((await this.state.storage.get<number>("count")) ?? 0) + 1;
+    await this.state.storage.put("count", count);
+    if (count === 1) {
+      await this.state.storage.setAlarm(Date.now() + ttlSec * 1000);
+    }
+    return new Response(String(count));
+  }
+
+  async alarm(): Promise<void> {
+    await this.state.storage.deleteAll();
+  }
+}
+
+/** Prefers a Durable Object binding, then a dedicated KV namespace, then isolate memory. */
+function counterStore(env: Env): CounterStore {
+  if (env.RATE_LIMITER) return new DurableObjectCounterStore(env.RATE_LIMITER);
+  if (env.RATE_LIMIT_KV) return new KvCounterStore(env.RATE_LIMIT_KV);
+  memoryCounters ??= new MemoryCounterStore();
+  return memoryCounters;
+}
+
+/** Identifies who is counted; `null` (no parsable client IP) disables the limit. */
+async function rateLimitSubject(limit: RateLimit, facts: RequestFacts): Promise<string | null> {
+  const ip = parseIp(facts.ip);
+  if (!ip) return null;
+  if (limit.key === "subnet") {
+    const hostBits = ip.version === 4 ? 8n : 64n;
+    return `v${ip.version}:${(ip.value >> hostBits).toString(16)}`;
+  }
+  const address = `v${ip.version}:${ip.value.toString(16)}`;
+  if (limit.key !== "ip-ua") return address;
+  const ua = await hashText(facts.headers.get("user-agent") || "");
+  return `${address}:${ua.slice("sha256:".length, "sha256:".length + 16)}`;
+}
+
+/**
+ * Counts a hit for a matched rule. Returns `null` under the limit, `"skip"` when the
+ * rule should fall through to the next one, or the response to send instead.
+ */
+async function enforceRateLimit(
+  rule: RouteRule,
+  facts: RequestFacts,
+  env: Env
+): Promise<Response | "skip" | null> {
+  const limit = rule.rateLimit;
+  if (!limit) return null;
+  const subject = await rateLimitSubject(limit, facts);
+  if (!subject) return null;
+  const windowMs = limit.windowSec * 1000;
+  const windowIndex = Math.floor(facts.now / windowMs);
+  const key = `${rule.id}:${subject}:${windowIndex}`;
+  const count = await counterStore(env).increment(key, limit.windowSec);
+  if (count <= limit.requests) return null;
+  const onLimit = limit.onLimit ?? "block";
+  if (onLimit === "skip") return "skip";
+  if (onLimit === "response" && limit.response) {
+    return applyResponse({ type: "response", ...limit.response });
+  }
+  const retryAfter = Math.ceil(((windowIndex + 1) * windowMs - facts.now) / 1000);
+  return new Response("Too Many Requests", {
+    status: 429,
+    headers: {
+      "Content-Type": "text/plain; charset=utf-8",
+      "Retry-After": String(retryAfter),
+      "Cache-Control": "no-store",
+    },
+  });
+}
+
+/** ----------------------------- Click tracking ----------------------------- */
+/**
+ * Clicks and conversions need the dedicated `CLICKS` namespace: without it click ids are still
+ * minted but not stored, and /postback is an ordinary path.
+ */
+function clicksKv(env: Env): KVNamespace | null {
+  return env.CLICKS ?? null;
+}
+
+async function saveClick(
+  env: Env,
+  id: string,
+  context: MatchContext,
+  target: URL,
+  facts: RequestFacts
+): Promise<void> {
+  const kv = clicksKv(env);
+  if (!kv) return;
+  const query: Record<string, string> = {};
+  facts.searchParams.forEach((value, key) => {
+    query[key] = value;
+  });
+  const record: ClickRecord = {
+    id,
+    ruleId: context.route.id,
+    variant: context.variant?.id ?? "0",
+    target: target.toString(),
+    country: facts.country,
+    device: facts.device,
+    uaHash: await hashText(facts.headers.get("user-agent") || ""),
+    ts: new Date(facts.now).toISOString(),
+    query,
+  };
+  const ttlSec = cachedConfig?.flags.clickTtlSec || DEFAULT_FLAGS.clickTtlSec!;
+  try {
+    await kv.put(`${CLICKS_PREFIX}/${id}`, JSON.stringify(record), { expirationTtl: ttlSec });
+  } catch (error) {
+    console.error("Failed to save click", id, error);
+  }
+}
+
+function postbackReply(status: number, message: string): Response {
+  return new Response(message, {
+    status,
+    headers: { "Content-Type": "text/plain; charset=utf-8", "Cache-Control": "no-store" },
+  });
+}
+
+/**
+ * Public endpoint for affiliate networks: `GET /postback?clickid=&payout=&status=&secret=`.
+ * Repeated postbacks for the same click and status are acknowledged but counted once.
+ * Per-rule totals are read-modify-write, so simultaneous postbacks can race.
+ */
+async function handlePostback(
+  request: Request,
+  env: Env,
+  kv: KVNamespace,
+  secret: string
+): Promise<Response> {
+  const params = new URL(request.url).searchParams;
+  if (!(await secretsEqual(params.get("secret") ?? "", secret))) {
+    return postbackReply(403, "Forbidden");
   }
-  invalidateCache();
-  await writeAudit(env, {
+  const clickId = params.get("clickid") || "";
+  const status = (params.get("status") || "approved").toLowerCase();
+  const payoutText = params.get("payout");
+  const payout = payoutText ? Number(payoutText) : 0;
+  if (!clickId) return postbackReply(400, "clickid is required");
+  if (!CONVERSION_STATUS_RE.test(status)) return postbackReply(400, "invalid status");
+  if (!Number.isFinite(payout)) return postbackReply(400, "payout must be a number");
+
+  const click = (await kv.get(`${CLICKS_PREFIX}/${clickId}`, "json")) as ClickRecord | null;
+  if (!click) return postbackReply(404, "Unknown or expired click");
+  const key = `${CONVERSIONS_PREFIX}/${clickId}/${status}`;
+  if (await kv.get(key)) return postbackReply(200, "OK (duplicate)");
+
+  const conversion: ConversionRecord = {
+    clickId,
+    ruleId: click.ruleId,
+    status,
+    payout,
+    country: click.country,
+    device: click.device,
+    clickedAt: click.ts,
     ts: nowIso(),
-    actor,
-    action: "cache.invalidate",
-  });
-  return new Response(JSON.stringify({ ok: true }), {
+  };
+  await kv.put(key, JSON.stringify(conversion));
+
+  const statsKey = `${CONVERSION_STATS_PREFIX}/${click.ruleId}`;
+  const stats = ((await kv.get(statsKey, "json")) as ConversionStats | null) ?? {
+    ruleId: click.ruleId,
+    conversions: 0,
+    payout: 0,
+    statuses: {},
+    countries: {},
+    devices: {},
+    lastAt: conversion.ts,
+  };
+  const byStatus = (stats.statuses[status] ??= { count: 0, payout: 0 });
+  byStatus.count += 1;
+  byStatus.payout += payout;
+  stats.conversions += 1;
+  stats.payout += payout;
+  const country = click.country || "XX";
+  stats.countries[country] = (stats.countries[country] ?? 0) + 1;
+  stats.devices[click.device] = (stats.devices[click.device] ?? 0) + 1;
+  stats.lastAt = conversion.ts;
+  await kv.put(statsKey, JSON.stringify(stats));
+  return postbackReply(200, "OK");
+}
+
+async function handleConversions(env: Env, ruleId?: string): Promise<Response> {
+  const kv = clicksKv(env);
+  const rules: ConversionStats[] = [];
+  if (kv) {
+    let cursor: string | undefined;
+    do {
+      const page = await kv.list({ prefix: `${CONVERSION_STATS_PREFIX}/`, cursor });
+      const keys = page.keys.filter(
+        (key) => !ruleId || key.name === `${CONVERSION_STATS_PREFIX}/${ruleId}`
+      );
+      const values = await Promise.all(keys.map((key) => kv.get(key.name, "json")));
+      values.forEach((value) => value && rules.push(value as ConversionStats));
+      cursor = page.list_complete ? undefined : page.cursor;
+    } while (cursor);
+  }
+  rules.sort((a, b) => b.conversions - a.conversions || a.ruleId.localeCompare(b.ruleId));
+  return new Response(JSON.stringify({ rules }), {
     status: 200,
     headers: { "Content-Type": "application/json" },
   });
 }
 
-async function handleAudit(env: Env, limit: number): Promise<Response> {
-  if (!hasKv(env)) {
-    return new Response(JSON.stringify([]), {
-      status: 200,
-      headers: { "Content-Type": "application/json" },
+/** ----------------------------- Hit statistics ----------------------------- */
+/** Storage for per-minute and per-hour buckets; keys look like `m/2024-05-01T12:03`. */
+export interface StatsStore {
+  /** Adds `delta` into the stored bucket. */
+  merge(bucket: string, delta: StatsBucket, ttlSec: number): Promise<void>;
+  read(buckets: string[]): Promise<Array<StatsBucket | null>>;
+}
+
+export class MemoryStatsStore implements StatsStore {
+  private readonly buckets = new Map<string, StatsBucket>();
+
+  async merge(bucket: string, delta: StatsBucket): Promise<void> {
+    this.buckets.set(bucket, mergeStatsBucket(this.buckets.get(bucket) ?? {}, delta));
+  }
+
+  async read(buckets: string[]): Promise<Array<StatsBucket | null>> {
+    return buckets.map((bucket) => this.buckets.get(bucket) ?? null);
+  }
+}
+
+/** Read-modify-write per bucket, so isolates flushing the same minute at once can lose counts. */
+export class KvStatsStore implements StatsStore {
+  constructor(private readonly kv: KVNamespace) {}
+
+  async merge(bucket: string, delta: StatsBucket, ttlSec: number): Promise<void> {
+    const key = `${STATS_PREFIX}/${bucket}`;
+    const current = ((await this.kv.get(key, "json")) as StatsBucket | null) ?? {};
+    await this.kv.put(key, JSON.stringify(mergeStatsBucket(current, delta)), {
+      expirationTtl: ttlSec,
     });
   }
-  const list = await env.AUDIT.list({ prefix: `${AUDIT_PREFIX}/`, limit });
-  const entries: AuditEntry[] = [];
-  for (const key of list.keys) {
-    const value = await env.AUDIT.get(key.name);
-    if (value) {
+
+  async read(buckets: string[]): Promise<Array<StatsBucket | null>> {
+    return Promise.all(
+      buckets.map(
+        async (bucket) =>
+          (await this.kv.get(`${STATS_PREFIX}/${bucket}`, "json")) as StatsBucket | null
+      )
+    );
+  }
+}
+
+/** Uses the optional `STATS` namespace, else isolate memory; never the config namespace. */
+function statsStore(env: Env): StatsStore {
+  if (env.STATS) return new KvStatsStore(env.STATS);
+  memoryStats ??= new MemoryStatsStore();
+  return memoryStats;
+}
+
+function emptyAggregate(): StatsAggregate {
+  return { hits: 0, bots: 0, limited: 0, countries: {}, devices: {}, targets: {} };
+}
+
+function addCounts(into: Record<string, number>, from: Record<string, number>): void {
+  for (const [key, count] of Object.entries(from)) {
+    into[key] = (into[key] ?? 0) + count;
+  }
+}
+
+function mergeStatsBucket(into: StatsBucket, delta: StatsBucket): StatsBucket {
+  for (const [ruleId, counts] of Object.entries(delta)) {
+    const target = (into[ruleId] ??= emptyAggregate());
+    target.hits += counts.hits;
+    target.bots += counts.bots;
+    // Buckets written before `limited` existed lack the field.
+    target.limited = (target.limited || 0) + (counts.limited || 0);
+    addCounts(target.countries, counts.countries);
+    addCounts(target.devices, counts.devices);
+    addCounts(target.targets, counts.targets);
+  }
+  return into;
+}
+
+function minuteBucket(ts: number): string {
+  return `m/${new Date(ts).toISOString().slice(0, 16)}`;
+}
+
+function hourBucket(ts: number): string {
+  return `h/${new Date(ts).toISOString().slice(0, 13)}`;
+}
+
+/**
+ * Counts a served request in this isolate's buffer; `ctx.waitUntil` writes the buffer out
+ * at most every STATS_FLUSH_INTERVAL_MS, so counts from an evicted isolate can be lost.
+ */
+function recordHit(
+  env: Env,
+  ctx: ExecutionContext,
+  ruleId: string,
+  facts: RequestFacts,
+  target: string | null,
+  limited = false
+): void {
+  const delta: StatsAggregate = {
+    hits: 1,
+    bots: facts.isBot ? 1 : 0,
+    limited: limited ? 1 : 0,
+    countries: { [facts.country || "XX"]: 1 },
+    devices: { [facts.device]: 1 },
+    targets: target === null ? {} : { [target]: 1 },
+  };
+  for (const bucket of [minuteBucket(facts.now), hourBucket(facts.now)]) {
+    pendingStats.set(bucket, mergeStatsBucket(pendingStats.get(bucket) ?? {}, { [ruleId]: delta }));
+  }
+  if (Date.now() - lastStatsFlush >= STATS_FLUSH_INTERVAL_MS) {
+    ctx.waitUntil(flushStats(env));
+  }
+}
+
+async function flushStats(env: Env): Promise<void> {
+  if (statsFlush) return statsFlush;
+  lastStatsFlush = Date.now();
+  const batch = pendingStats;
+  pendingStats = new Map();
+  const store = statsStore(env);
+  statsFlush = (async () => {
+    for (const [bucket, delta] of batch) {
+      const ttlSec = bucket.startsWith("m/") ? STATS_MINUTE_TTL_SEC : STATS_HOUR_TTL_SEC;
       try {
-        entries.push(JSON.parse(value) as AuditEntry);
+        await store.merge(bucket, delta, ttlSec);
       } catch (error) {
-        entries.push({
-          ts: nowIso(),
-          actor: "system",
-          action: "audit.parse_error",
-          error: error instanceof Error ? error.message : String(error),
-        });
+        console.error("Failed to flush stats", bucket, error);
       }
     }
-  }
-  entries.sort((a, b) => (a.ts > b.ts ? -1 : a.ts < b.ts ? 1 : 0));
-  return new Response(JSON.stringify(entries.slice(0, limit)), {
-    status: 200,
-    headers: { "Content-Type": "application/json" },
+  })().finally(() => {
+    statsFlush = null;
   });
+  return statsFlush;
 }
 
-async function handleExport(env: Env): Promise<Response> {
-  const bundle = await hydrateCache(env, true);
+interface StatsQuery {
+  rule?: string;
+  from?: string;
+  to?: string;
+  groupBy?: string;
+}
+
+/** Value(s) of `groupBy` that one rule's aggregate contributes to. */
+function statsGroups(
+  ruleId: string,
+  counts: StatsAggregate,
+  groupBy: StatsGroupBy
+): Record<string, number> {
+  if (groupBy === "rule") return { [ruleId]: counts.hits };
+  if (groupBy === "bot") return { bot: counts.bots, human: counts.hits - counts.bots };
+  if (groupBy === "country") return counts.countries;
+  if (groupBy === "device") return counts.devices;
+  if (groupBy === "limited") {
+    const limited = counts.limited || 0;
+    return { served: counts.hits - limited, limited };
+  }
+  return counts.targets;
+}
+
+/**
+ * Time series of hits between `from` and `to` (default: the last 24 hours), one per
+ * `groupBy` value. Ranges up to three hours use minute buckets, longer ones hourly.
+ */
+async function handleStats(env: Env, query: StatsQuery): Promise<Response> {
+  const to = query.to ? Date.parse(query.to) : Date.now();
+  const from = query.from ? Date.parse(query.from) : to - 24 * 3600_000;
+  if (Number.isNaN(from) || Number.isNaN(to) || from > to) {
+    throw Object.assign(new Error("from and to must be ISO dates with from <= to"), {
+      status: 400,
+    });
+  }
+  if (to - from > STATS_MAX_RANGE_MS) {
+    throw Object.assign(new Error("the range can span at most 7 days"), { status: 400 });
+  }
+  const groupBy = (query.groupBy ?? "rule") as StatsGroupBy;
+  if (!STATS_GROUP_BY.includes(groupBy)) {
+    throw Object.assign(new Error(`groupBy must be one of ${STATS_GROUP_BY.join(", ")}`), {
+      status: 400,
+    });
+  }
+  await flushStats(env);
+
+  const interval = to - from <= STATS_MINUTE_RANGE_MS ? "minute" : "hour";
+  const stepMs = interval === "minute" ? 60_000 : 3600_000;
+  const bucketOf = interval === "minute" ? minuteBucket : hourBucket;
+  const times: number[] = [];
+  for (let ts = Math.floor(from / stepMs) * stepMs; ts <= to; ts += stepMs) {
+    times.push(ts);
+  }
+  const buckets = await statsStore(env).read(times.map(bucketOf));
+
+  const series = new Map<string, number[]>();
+  buckets.forEach((bucket, idx) => {
+    for (const [ruleId, counts] of Object.entries(bucket ?? {})) {
+      if (query.rule && ruleId !== query.rule) continue;
+      for (const [key, count] of Object.entries(statsGroups(ruleId, counts, groupBy))) {
+        if (!series.has(key)) series.set(key, new Array(times.length).fill(0));
+        series.get(key)![idx] += count;
+      }
+    }
+  });
+  const result = [...series.entries()]
+    .map(([key, points]) => ({ key, total: points.reduce((sum, n) => sum + n, 0), points }))
+    .sort((a, b) => b.total - a.total || a.key.localeCompare(b.key));
   return new Response(
     JSON.stringify({
-      routes: bundle.routes,
-      flags: bundle.flags,
-      metadata: bundle.metadata,
-      etag: bundle.etag,
+      from: new Date(times[0] ?? from).toISOString(),
+      to: new Date(to).toISOString(),
+      interval,
+      groupBy,
+      times: times.map((ts) => new Date(ts).toISOString()),
+      series: result,
     }),
-    {
-      status: 200,
-      headers: { "Content-Type": "application/json" },
-    }
+    { status: 200, headers: { "Content-Type": "application/json" } }
   );
 }
 
-async function handleImport(
-  request: Request,
-  env: Env,
-  actor: string
-): Promise<Response> {
-  if (!hasKv(env)) {
-    return new Response(JSON.stringify({ error: "kv_not_configured" }), {
-      status: 501,
-      headers: { "Content-Type": "application/json" },
-    });
+/** ----------------------------- Admin sessions ----------------------------- */
+const SESSION_COOKIE = "tds_admin_session";
+
+interface AdminSession {
+  username: string;
+  /** Prefix of the token hash the session was issued for; rotating the token revokes it. */
+  fingerprint: string;
+  csrf: string;
+  expiresAt: number;
+}
+
+/** First 16 hex digits of a `sha256:` token hash (64 bits, past the algorithm prefix). */
+function tokenFingerprint(tokenHash: string): string {
+  return tokenHash.slice("sha256:".length, "sha256:".length + 16);
+}
+
+function sessionSecret(env: Env): string | null {
+  return env.SESSION_SECRET || null;
+}
+
+function sessionCookie(value: string, ttlSec: number): string {
+  const maxAge = Math.floor(ttlSec);
+  return `${SESSION_COOKIE}=${value}; Max-Age=${maxAge}; Path=/; Secure; HttpOnly; SameSite=Strict`;
+}
+
+async function readSession(request: Request, env: Env): Promise<AdminSession | null> {
+  const secret = sessionSecret(env);
+  if (!secret) return null;
+  const data = await verifyValue(secret, "session", readCookie(request.headers, SESSION_COOKIE));
+  if (
+    !isPlainObject(data) ||
+    typeof data.u !== "string" ||
+    typeof data.f !== "string" ||
+    typeof data.c !== "string" ||
+    typeof data.e !== "number" ||
+    data.e <= Date.now()
+  ) {
+    return null;
   }
-  const text = await request.text();
-  const payload = parseJsonBody<{
-    routes: unknown;
-    flags: unknown;
-  }>(text);
-  validateRoutesPayload(payload.routes);
-  validateFlagsPayload(payload.flags);
-  const current = await hydrateCache(env, true);
-  await env.CONFIG.put(configKey(env, "routes"), JSON.stringify(payload.routes));
-  await env.CONFIG.put(configKey(env, "flags"), JSON.stringify(payload.flags));
-  const metadata = await updateMetadata(env, actor);
-  invalidateCache();
-  const reloaded = await hydrateCache(env, true);
-  await writeAudit(env, {
-    ts: metadata.updatedAt,
-    actor,
-    action: "config.import",
-    prevHash: current.etag,
-    newHash: reloaded.etag,
-    diffBytes:
-      JSON.stringify(payload.routes).length + JSON.stringify(payload.flags).length -
-      (JSON.stringify(current.routes).length + JSON.stringify(current.flags).length),
+  return { username: data.u, fingerprint: data.f, csrf: data.c, expiresAt: data.e };
+}
+
+/** Re-checks the user on every request so disabling or rotating takes effect at once. */
+async function sessionPrincipal(env: Env, session: AdminSession): Promise<Principal | null> {
+  if (session.username === "admin") {
+    if (!env.ADMIN_TOKEN) return null;
+    const hash = await hashText(env.ADMIN_TOKEN);
+    if (tokenFingerprint(hash) !== session.fingerprint) return null;
+    return { username: "admin", role: "admin", breakGlass: true, csrf: session.csrf };
+  }
+  const user = await loadUser(env, session.username);
+  if (!user || user.disabled || tokenFingerprint(user.tokenHash) !== session.fingerprint) {
+    return null;
+  }
+  return { username: user.username, role: user.role, breakGlass: false, csrf: session.csrf };
+}
+
+function loginHtml(flags: FlagsConfig, message?: string): string {
+  const title = escapeHtml(flags.uiTitle);
+  const notice = message ? `<p class="error">${escapeHtml(message)}</p>` : "";
+  return `<!doctype html>
+<html lang="en">
+  <head>
+    <meta charset="utf-8" />
+    <title>${title}</title>
+    <meta name="viewport" content="width=device-width, initial-scale=1" />
+    <style>
+      :root { color-scheme: dark light; }
+      body { font-family: system-ui, sans-serif; margin: 0; background: #111; color: #f5f5f5; display: grid; place-items: center; min-height: 100vh; }
+      form { background: #1b1b1b; padding: 1.5rem; border-radius: 0.75rem; box-shadow: 0 0 0 1px #222; display: grid; gap: 0.75rem; width: min(22rem, 90vw); }
+      h1 { margin: 0; font-size: 1.2rem; }
+      input { padding: 0.6rem; border-radius: 0.5rem; border: 1px solid #333; background: #151515; color: #eee; }
+      button { padding: 0.6rem 1.2rem; border: none; border-radius: 0.5rem; background: #4c7dff; color: white; font-weight: 600; cursor: pointer; }
+      .error { color: #ff8a8a; margin: 0; }
+    </style>
+  </head>
+  <body>
+    <form method="post" action="/admin/login">
+      <h1>${title}</h1>
+      ${notice}
+      <input type="password" name="token" placeholder="Access token" autocomplete="current-password" required autofocus />
+      <button type="submit">Sign in</button>
+    </form>
+  </body>
+</html>`;
+}
+
+function loginResponse(flags: FlagsConfig, status: number, message?: string): Response {
+  const headers = new Headers();
+  headers.set("Content-Type", "text/html; charset=utf-8");
+  headers.set("Cache-Control", "no-store");
+  headers.set("X-Frame-Options", "DENY");
+  headers.set(
+    "Content-Security-Policy",
+    "default-src 'self'; style-src 'self' 'unsafe-inline'; form-action 'self'"
+  );
+  return new Response(loginHtml(flags, message), { status, headers });
+}
+
+function redirectToAdmin(cookie: string): Response {
+  const headers = new Headers({ Location: "/admin", "Cache-Control": "no-store" });
+  headers.append("Set-Cookie", cookie);
+  return new Response(null, { status: 303, headers });
+}
+
+/** Exchanges a token posted from the login form for a signed session cookie. */
+async function handleLogin(request: Request, env: Env, flags: FlagsConfig): Promise<Response> {
+  const url = new URL(request.url);
+  const origin = request.headers.get("origin");
+  if (origin && origin !== url.origin) {
+    return loginResponse(flags, 403, "Cross-origin sign-in is not allowed");
+  }
+  const ip =
+    request.headers.get("cf-connecting-ip") || request.headers.get("x-forwarded-for");
+  if (!isIpAllowed(ip, flags)) {
+    return loginResponse(flags, 403, "Forbidden");
+  }
+  const secret = sessionSecret(env);
+  if (!secret) {
+    return loginResponse(flags, 501, "Set SESSION_SECRET to enable sign-in");
+  }
+  let token = "";
+  try {
+    const form = await request.formData();
+    token = String(form.get("token") ?? "").trim();
+  } catch {
+    token = "";
+  }
+  const principal = token ? await principalForToken(env, token) : null;
+  if (!principal) {
+    return loginResponse(flags, 401, "Invalid token");
+  }
+  const ttlSec = flags.sessionTtlSec || DEFAULT_FLAGS.sessionTtlSec!;
+  const csrf = new Uint8Array(16);
+  crypto.getRandomValues(csrf);
+  const value = await signValue(secret, "session", {
+    u: principal.username,
+    f: tokenFingerprint(await hashText(token)),
+    c: base64UrlEncode(csrf),
+    e: Date.now() + ttlSec * 1000,
   });
-  return new Response(JSON.stringify({ ok: true, etag: reloaded.etag }), {
-    status: 200,
-    headers: { "Content-Type": "application/json" },
+  await writeAudit(env, {
+    ts: nowIso(),
+    actor: buildActor(request, principal.username),
+    action: "auth.login",
   });
+  return redirectToAdmin(sessionCookie(value, ttlSec));
+}
+
+/**
+ * Needs the session's CSRF token like every other session mutation, as the `csrf` form field
+ * the admin UI posts or an `X-CSRF-Token` header; without a valid session there is nothing to
+ * protect and the cookie is simply cleared.
+ */
+async function handleLogout(request: Request, env: Env): Promise<Response> {
+  const session = await readSession(request, env);
+  if (session) {
+    let token = request.headers.get("x-csrf-token");
+    if (!token) {
+      try {
+        token = String((await request.formData()).get("csrf") ?? "");
+      } catch {
+        token = "";
+      }
+    }
+    if (!(await secretsEqual(token, session.csrf))) {
+      throw Object.assign(new Error("Missing or invalid CSRF token"), { status: 403 });
+    }
+  }
+  return redirectToAdmin(sessionCookie("", 0));
 }
 
 /** ----------------------------- Runtime ----------------------------- */
-async function handleRuntimeRequest(request: Request, env: Env): Promise<Response> {
+async function handleRuntimeRequest(
+  request: Request,
+  env: Env,
+  ctx: ExecutionContext
+): Promise<Response> {
   const bundle = await hydrateCache(env);
   const url = new URL(request.url);
   const pathname = url.pathname;
   const ua = request.headers.get("user-agent") || "";
   const country = ((request as any).cf?.country || "").toUpperCase();
-  const device = detectDevice(ua);
-  const isBot = isBotAgent(ua, bundle.flags, (request as any).cf?.bot);
+  const device = detectDevice(ua, bundle.classifier);
+  const asn = typeof (request as any).cf?.asn === "number" ? (request as any).cf.asn : null;
+  const isBot = isBotAgent(ua, bundle.flags, bundle.classifier, (request as any).cf?.bot, asn);
+  const facts: RequestFacts = {
+    host: url.hostname,
+    ip: clientIp(request),
+    asn,
+    pathname,
+    searchParams: url.searchParams,
+    headers: request.headers,
+    country,
+    device,
+    client: parseUserAgent(ua),
+    isBot,
+    now: Date.now(),
+  };
+  const persisted = await paramTouches(
+    env,
+    bundle.flags,
+    request.headers,
+    url.searchParams,
+    facts.now
+  );
+  facts.touches = persisted.touches;
+
+  const response = await serveRoutes(request, env, ctx, bundle, facts);
+  if (!persisted.updated || !persisted.touches) return response;
+  const ttlSec = bundle.flags.persistTtlSec || DEFAULT_FLAGS.persistTtlSec!;
+  const cookie = await touchesCookie(
+    stickySecret(env)!,
+    persistCookieName(bundle.flags),
+    persisted.touches,
+    ttlSec
+  );
+  return withCookie(response, cookie);
+}
+
+/** The first matching rule (with its sticky target, if pinned); otherwise the origin. */
+async function serveRoutes(
+  request: Request,
+  env: Env,
+  ctx: ExecutionContext,
+  bundle: ConfigBundle,
+  facts: RequestFacts
+): Promise<Response> {
+  const secret = stickySecret(env);
+  const cookieName = bundle.flags.stickyCookieName || DEFAULT_FLAGS.stickyCookieName!;
+  const usesSticky = Boolean(secret) && bundle.routes.some((rule) => rule.sticky);
+  // Methods other than GET only reach proxy rules; everything else goes to the origin.
+  const proxiesOnly = request.method !== "GET";
+  const assignments = usesSticky
+    ? await verifySticky(secret!, readCookie(request.headers, cookieName))
+    : {};
 
   for (const rule of bundle.routes) {
-    const ctx = matchRoute(rule, pathname, country, device, isBot);
-    if (ctx) {
-      return executeRoute(ctx, request, country, device);
+    if (proxiesOnly && rule.action.type !== "proxy") continue;
+    const context = matchRoute(rule, facts);
+    if (context) {
+      const verdict = await enforceRateLimit(rule, facts, env);
+      if (verdict instanceof Response) {
+        recordHit(env, ctx, rule.id, facts, null, true);
+        return verdict;
+      }
+      if (verdict === "skip") continue;
+      const sticky = usesSticky && Boolean(rule.sticky);
+      if (sticky) resolveSticky(assignments[rule.id], context);
+      const response = await executeRoute(context, request, facts, env, ctx);
+      if (!response) continue;
+      recordHit(env, ctx, rule.id, facts, context.target ?? null);
+      // Re-pin when there was no pin or its origin was down and another variant was picked.
+      if (!sticky || !context.variant || context.variant.id === assignments[rule.id]?.targetId) {
+        return response;
+      }
+      const ttlSec = bundle.flags.stickyTtlSec || DEFAULT_FLAGS.stickyTtlSec!;
+      assignments[rule.id] = {
+        targetId: context.variant.id,
+        expiresAt: Date.now() + ttlSec * 1000,
+      };
+      const value = await signSticky(secret!, assignments);
+      return withCookie(response, stickyCookie(cookieName, value, ttlSec));
     }
   }
 
+  if (!proxiesOnly) recordHit(env, ctx, ORIGIN_STATS_ID, facts, ORIGIN_STATS_ID);
   return fetch(request);
 }
 
 /** ----------------------------- Main handler ----------------------------- */
-export default {
-  async fetch(request: Request, env: Env): Promise<Response> {
-    await ensureConfigInitialized(env);
+/** Turns errors that carry an HTTP `status` (bad input, auth) into JSON responses. */
+function errorResponse(error: unknown): Response | null {
+  const status = (error as any)?.status;
+  if (typeof status !== "number") return null;
+  const issues = (error as any).issues as ValidationIssue[] | undefined;
+  const body = issues
+    ? { error: "validation_failed", message: (error as Error).message, issues }
+    : { error: (error as Error).message };
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
 
-    const url = new URL(request.url);
-    const pathname = url.pathname;
-    const bundle = await hydrateCache(env);
-    const kvReady = hasKv(env);
-    const effectiveFlags = {
-      ...bundle.flags,
-      uiReadonly: bundle.flags.uiReadonly || !kvReady,
-    };
+async function routeRequest(
+  request: Request,
+  env: Env,
+  ctx: ExecutionContext
+): Promise<Response> {
+  await ensureConfigInitialized(env);
 
-    if (pathname === "/admin") {
-      try {
-        await authorize(request, env, bundle.flags);
-      } catch (error) {
-        const status = (error as any)?.status || 401;
-        return new Response(JSON.stringify({ error: (error as Error).message }), {
-          status,
-          headers: { "Content-Type": "application/json" },
-        });
-      }
-      const tokenFromQuery = url.searchParams.get("token") || undefined;
-      return adminResponse(effectiveFlags, tokenFromQuery, kvReady);
-    }
+  const url = new URL(request.url);
+  const pathname = url.pathname;
+  const bundle = await hydrateCache(env);
+  const kvReady = hasKv(env);
+  const effectiveFlags = {
+    ...bundle.flags,
+    uiReadonly: bundle.flags.uiReadonly || !kvReady,
+  };
 
-    if (pathname.startsWith("/api/")) {
-      try {
-        await authorize(request, env, bundle.flags);
-      } catch (error) {
-        const status = (error as any)?.status || 401;
-        return new Response(JSON.stringify({ error: (error as Error).message }), {
-          status,
-          headers: { "Content-Type": "application/json" },
-        });
+  if (bundle.flags.sessionLogin && request.method.toUpperCase() === "POST") {
+    if (pathname === "/admin/login") return handleLogin(request, env, bundle.flags);
+    if (pathname === "/admin/logout") return handleLogout(request, env);
+  }
+
+  if (pathname === "/admin") {
+    let principal: Principal;
+    try {
+      principal = await authorize(request, env, bundle.flags);
+    } catch (error) {
+      const status = (error as any)?.status || 401;
+      if (bundle.flags.sessionLogin && status === 401) {
+        const message = url.searchParams.has("token") ? (error as Error).message : undefined;
+        return loginResponse(bundle.flags, 401, message);
       }
+      return new Response(JSON.stringify({ error: (error as Error).message }), {
+        status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+    const tokenFromQuery = bundle.flags.sessionLogin
+      ? undefined
+      : url.searchParams.get("token") || undefined;
+    return adminResponse(effectiveFlags, tokenFromQuery, kvReady, principal.csrf);
+  }
 
-      const actor = buildActor(request);
-      const method = request.method.toUpperCase();
+  if (pathname.startsWith("/api/")) {
+    let principal: Principal;
+    try {
+      principal = await authorize(request, env, bundle.flags);
+    } catch (error) {
+      const status = (error as any)?.status || 401;
+      return new Response(JSON.stringify({ error: (error as Error).message }), {
+        status,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
 
-      if (pathname === "/api/routes" && method === "GET") return handleRoutesGet(env);
-      if (pathname === "/api/routes" && method === "PUT")
-        return handleRoutesPut(request, env, actor);
-      if (pathname.startsWith("/api/routes/") && method === "PATCH") {
-        const id = pathname.split("/").pop() as string;
-        return handleRoutesPatch(request, env, actor, id);
-      }
-      if (pathname.startsWith("/api/routes/") && method === "DELETE") {
-        const id = pathname.split("/").pop() as string;
-        return handleRoutesDelete(env, actor, id);
-      }
-      if (pathname === "/api/routes/validate" && method === "POST")
-        return handleRoutesValidate(request);
-      if (pathname === "/api/flags" && method === "GET") return handleFlagsGet(env);
-      if (pathname === "/api/flags" && method === "PUT")
-        return handleFlagsPut(request, env, actor);
-      if (pathname === "/api/cache/invalidate" && method === "POST")
-        return handleCacheInvalidate(env, actor);
-      if (pathname === "/api/audit" && method === "GET") {
-        const limitParam = url.searchParams.get("limit");
-        const limit = limitParam ? Math.min(parseInt(limitParam, 10) || 20, 100) : 20;
-        return handleAudit(env, limit);
-      }
-      if (pathname === "/api/export" && method === "GET") return handleExport(env);
-      if (pathname === "/api/import" && method === "POST")
-        return handleImport(request, env, actor);
+    const actor = buildActor(request, principal.username);
+    const method = request.method.toUpperCase();
+    const needed = requiredRole(method, pathname);
+    if (!hasRole(principal, needed)) {
+      return forbidden(`Requires the ${needed} role`);
+    }
 
-      return new Response(JSON.stringify({ error: "not_found" }), {
-        status: 404,
+    if (pathname === "/api/me" && method === "GET") {
+      const { csrf: _csrf, ...me } = principal;
+      return new Response(JSON.stringify(me), {
+        status: 200,
         headers: { "Content-Type": "application/json" },
       });
     }
+    if (pathname === "/api/webhooks/test" && method === "POST") {
+      return handleWebhookTest(env, actor);
+    }
+    if (pathname === "/api/users" && method === "GET") return handleUsersList(env);
+    if (pathname === "/api/users" && method === "POST")
+      return handleUsersCreate(request, env, ctx, actor);
+    if (pathname.startsWith("/api/users/") && method === "PATCH") {
+      const username = pathParam(pathname, "/api/users/");
+      return handleUsersUpdate(request, env, ctx, actor, username);
+    }
+    if (pathname.startsWith("/api/users/") && method === "DELETE") {
+      const username = pathParam(pathname, "/api/users/");
+      return handleUsersDelete(env, ctx, actor, username);
+    }
+
+    if (pathname === "/api/routes" && method === "GET") return handleRoutesGet(env);
+    if (pathname === "/api/routes" && method === "PUT")
+      return handleRoutesPut(request, env, ctx, actor);
+    if (pathname.startsWith("/api/routes/") && method === "PATCH") {
+      const id = pathParam(pathname, "/api/routes/");
+      return handleRoutesPatch(request, env, ctx, actor, id);
+    }
+    if (pathname.startsWith("/api/routes/") && method === "DELETE") {
+      const id = pathParam(pathname, "/api/routes/");
+      return handleRoutesDelete(request, env, ctx, actor, id);
+    }
+    if (pathname === "/api/routes/validate" && method === "POST")
+      return handleRoutesValidate(request, env);
+    if (pathname === "/api/routes/simulate" && method === "POST")
+      return handleRoutesSimulate(request, env, ctx);
+    if (pathname === "/api/flags" && method === "GET") return handleFlagsGet(env);
+    if (pathname === "/api/flags" && method === "PUT")
+      return handleFlagsPut(request, env, ctx, actor);
+    if (pathname === "/api/cache/invalidate" && method === "POST")
+      return handleCacheInvalidate(env, ctx, actor);
+    if (pathname === "/api/audit" && method === "GET") {
+      const param = (name: string) => url.searchParams.get(name) || undefined;
+      const limitParam = url.searchParams.get("limit");
+      const limit = limitParam
+        ? Math.min(parseInt(limitParam, 10) || 20, AUDIT_PAGE_MAX)
+        : 20;
+      return handleAudit(env, {
+        limit,
+        cursor: param("cursor"),
+        actor: param("actor"),
+        action: param("action"),
+        rule: param("rule"),
+        from: param("from"),
+        to: param("to"),
+      });
+    }
+    if (pathname === "/api/versions" && method === "GET") return handleVersionsList(env);
+    if (pathname.startsWith("/api/versions/") && method === "GET") {
+      const etag = pathParam(pathname, "/api/versions/");
+      return handleVersionGet(env, etag);
+    }
+    if (pathname.startsWith("/api/rollback/") && method === "POST") {
+      const etag = pathParam(pathname, "/api/rollback/");
+      return handleRollback(request, env, ctx, principal, actor, etag);
+    }
+    if (pathname === "/api/health/targets" && method === "GET") return handleHealthTargets(env);
+    if (pathname === "/api/stats" && method === "GET") {
+      const param = (name: string) => url.searchParams.get(name) || undefined;
+      return handleStats(env, {
+        rule: param("rule"),
+        from: param("from"),
+        to: param("to"),
+        groupBy: param("groupBy"),
+      });
+    }
+    if (pathname === "/api/conversions" && method === "GET") {
+      return handleConversions(env, url.searchParams.get("rule") || undefined);
+    }
+    if (pathname === "/api/health/check" && method === "POST") return handleHealthCheck(env, ctx);
+    if (pathname === "/api/export" && method === "GET") return handleExport(env);
+    if (pathname === "/api/publish" && method === "POST")
+      return handleConfigReplace(request, env, ctx, principal, actor, "config.publish");
+    if (pathname === "/api/import" && method === "POST")
+      return handleConfigReplace(request, env, ctx, principal, actor, "config.import");
+
+    return new Response(JSON.stringify({ error: "not_found" }), {
+      status: 404,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  if (request.method !== "GET") {
+    const proxies = bundle.routes.some((rule) => rule.action.type === "proxy");
+    return proxies ? handleRuntimeRequest(request, env, ctx) : fetch(request);
+  }
+
+  if (pathname === REDIRECT_HOP_PATH) return handleRedirectHop(request, env);
+  // Without a secret (or a namespace for clicks) /postback is an ordinary path for the rules.
+  const clicks = clicksKv(env);
+  if (pathname === POSTBACK_PATH && env.POSTBACK_SECRET && clicks) {
+    return handlePostback(request, env, clicks, env.POSTBACK_SECRET);
+  }
+
+  return handleRuntimeRequest(request, env, ctx);
+}
 
-    if (request.method !== "GET") {
-      return fetch(request);
+export default {
+  async fetch(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
+    try {
+      return await routeRequest(request, env, ctx);
+    } catch (error) {
+      const response = errorResponse(error);
+      if (response) return response;
+      throw error;
     }
+  },
 
-    return handleRuntimeRequest(request, env);
+  async scheduled(
+    _controller: ScheduledController,
+    env: Env,
+    ctx: ExecutionContext
+  ): Promise<void> {
+    ctx.waitUntil(runHealthChecks(env, ctx));
   },
 };